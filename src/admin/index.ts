@@ -1,13 +1,14 @@
 // src/admin/index.ts
-import { AuthenticationError } from '../errors.js';
 import type { AdminAccountUsage, ActorUsage, ModelUsageBreakdown } from '../types.js';
+import { errorForResponse, request, withBaseUrl, type RequestOptions } from '../http/index.js';
+import { array, boolean, nullable, number, object, string, validateResponse } from '../validation/index.js';
 import { estimateCostCents } from './pricing.js';
 
 const API_BASE = 'https://api.anthropic.com/v1';
 const ANTHROPIC_VERSION = '2023-06-01';
 
 // Raw API response types for /cost_report
-interface RawCostBucketResult {
+export interface RawCostBucketResult {
   amount: string;
   currency: string;
   cost_type: string | null;
@@ -21,7 +22,7 @@ interface RawCostBucketResult {
   speed: string | null;
 }
 
-interface RawCostBucket {
+export interface RawCostBucket {
   starting_at: string;
   ending_at: string;
   results: RawCostBucketResult[];
@@ -34,12 +35,12 @@ interface RawCostReport {
 }
 
 // Raw API response types for /usage_report/messages
-interface RawCacheCreation {
+export interface RawCacheCreation {
   ephemeral_5m_input_tokens: number;
   ephemeral_1h_input_tokens: number;
 }
 
-interface RawBucketResult {
+export interface RawBucketResult {
   api_key_id: string | null;
   model: string | null;
   workspace_id: string | null;
@@ -50,7 +51,7 @@ interface RawBucketResult {
   server_tool_use: { web_search_requests: number };
 }
 
-interface RawBucket {
+export interface RawBucket {
   starting_at: string;
   ending_at: string;
   results: RawBucketResult[];
@@ -62,6 +63,47 @@ interface RawMessagesUsageReport {
   next_page: string | null;
 }
 
+const costReport = object<RawCostReport>({
+  data: array(object<RawCostBucket>({
+    starting_at: string,
+    ending_at: string,
+    results: array(object<RawCostBucketResult>({
+      amount: string,
+      currency: string,
+      cost_type: nullable(string),
+      description: nullable(string),
+      model: nullable(string),
+      token_type: nullable(string),
+      service_tier: nullable(string),
+      workspace_id: nullable(string),
+      context_window: nullable(string),
+      inference_geo: nullable(string),
+      speed: nullable(string),
+    })),
+  })),
+  has_more: boolean,
+  next_page: nullable(string),
+});
+
+const messagesUsageReport = object<RawMessagesUsageReport>({
+  data: array(object<RawBucket>({
+    starting_at: string,
+    ending_at: string,
+    results: array(object<RawBucketResult>({
+      api_key_id: nullable(string),
+      model: nullable(string),
+      workspace_id: nullable(string),
+      uncached_input_tokens: number,
+      cache_read_input_tokens: number,
+      cache_creation: object<RawCacheCreation>({ ephemeral_5m_input_tokens: number, ephemeral_1h_input_tokens: number }),
+      output_tokens: number,
+      server_tool_use: object<RawBucketResult['server_tool_use']>({ web_search_requests: number }),
+    })),
+  })),
+  has_more: boolean,
+  next_page: nullable(string),
+});
+
 /**
  * Fetches the messages usage report from the Admin API.
  * Uses /v1/organizations/usage_report/messages with daily buckets grouped by API key and model.
@@ -70,6 +112,7 @@ interface RawMessagesUsageReport {
 export async function fetchMessagesUsage(
   adminApiKey: string,
   startingAt?: string,
+  options: RequestOptions = {},
 ): Promise<RawBucket[]> {
   const startDate = startingAt ?? `${new Date().toISOString().slice(0, 8)}01`;
   const start = `${startDate}T00:00:00Z`;
@@ -92,25 +135,24 @@ export async function fetchMessagesUsage(
     if (page) params.set('page', page);
 
     // Append group_by[] manually — URLSearchParams encodes [] to %5B%5D which the API may reject
-    const url = `${API_BASE}/organizations/usage_report/messages?${params}&group_by[]=api_key_id&group_by[]=model`;
-    const response = await fetch(url, {
+    const url = `${withBaseUrl(API_BASE, options.baseUrls?.api)}/organizations/usage_report/messages?${params}&group_by[]=api_key_id&group_by[]=model`;
+    const response = await request(url, {
       headers: {
         'x-api-key': adminApiKey,
         'anthropic-version': ANTHROPIC_VERSION,
       },
-    });
+    }, options);
 
     if (!response.ok) {
-      if (response.status === 401) throw new AuthenticationError(401);
       let errorMessage = '';
       try {
         const body = await response.json() as { error?: { message?: string } };
         errorMessage = body.error?.message ?? '';
       } catch { /* ignore parse errors */ }
-      throw new Error(errorMessage || `Admin API error: ${response.status} ${response.statusText}`);
+      throw errorForResponse(response, errorMessage || `Admin API error: ${response.status} ${response.statusText}`);
     }
 
-    const body = await response.json() as RawMessagesUsageReport;
+    const body = validateResponse('/v1/organizations/usage_report/messages', messagesUsageReport, await response.json(), options.validation);
     buckets.push(...body.data);
     page = body.has_more ? body.next_page : null;
   } while (page);
@@ -251,6 +293,7 @@ export function transformMessagesUsage(
 export async function fetchCostReport(
   adminApiKey: string,
   startingAt?: string,
+  options: RequestOptions = {},
 ): Promise<RawCostBucket[]> {
   const startDate = startingAt ?? `${new Date().toISOString().slice(0, 8)}01`;
   const start = `${startDate}T00:00:00Z`;
@@ -272,25 +315,24 @@ export async function fetchCostReport(
     });
     if (page) params.set('page', page);
 
-    const url = `${API_BASE}/organizations/cost_report?${params}`;
-    const response = await fetch(url, {
+    const url = `${withBaseUrl(API_BASE, options.baseUrls?.api)}/organizations/cost_report?${params}`;
+    const response = await request(url, {
       headers: {
         'x-api-key': adminApiKey,
         'anthropic-version': ANTHROPIC_VERSION,
       },
-    });
+    }, options);
 
     if (!response.ok) {
-      if (response.status === 401) throw new AuthenticationError(401);
       let errorMessage = '';
       try {
         const body = await response.json() as { error?: { message?: string } };
         errorMessage = body.error?.message ?? '';
       } catch { /* ignore parse errors */ }
-      throw new Error(errorMessage || `Admin API error: ${response.status} ${response.statusText}`);
+      throw errorForResponse(response, errorMessage || `Admin API error: ${response.status} ${response.statusText}`);
     }
 
-    const body = await response.json() as RawCostReport;
+    const body = validateResponse('/v1/organizations/cost_report', costReport, await response.json(), options.validation);
     buckets.push(...body.data);
     page = body.has_more ? body.next_page : null;
   } while (page);
@@ -0,0 +1,87 @@
+// src/alerts/index.ts — threshold rules with hysteresis over usage results
+import type { AccountUsage, AlertEvent, AlertMetric, AlertOptions, AlertRule } from '../types.js';
+
+export type { AlertNotifier } from './types.js';
+export { CallbackNotifier, FileNotifier, CommandNotifier, WebhookNotifier } from './notifiers.js';
+export type { CommandNotifierOptions, WebhookNotifierOptions } from './notifiers.js';
+
+const DEFAULT_HYSTERESIS_FRACTION = 0.05;
+
+function metricValue(usage: AccountUsage, metric: AlertMetric): number | null {
+  if (usage.accountType === 'admin') {
+    if (metric === 'estimatedCostCents') return usage.estimatedCostCents;
+    if (metric === 'actualCostCents') return usage.actualCostCents ?? null;
+    return null;
+  }
+  if (metric === 'estimatedCostCents' || metric === 'actualCostCents') return null;
+  if (metric === 'extraUsageCredits') return usage.extraUsage.usedCredits;
+  return usage[metric]?.percent ?? null;
+}
+
+function formatValue(metric: AlertMetric, value: number): string {
+  if (metric === 'extraUsageCredits') return `$${value.toFixed(2)}`;
+  if (metric === 'estimatedCostCents' || metric === 'actualCostCents') return `$${(value / 100).toFixed(2)}`;
+  return `${Math.round(value * 10) / 10}%`;
+}
+
+/**
+ * Evaluates rules against usage results and notifies once per crossing: a rule that fired for an
+ * account stays quiet until the value falls below `threshold - hysteresis` (e.g. after a reset).
+ * State is kept in memory for the lifetime of the engine.
+ */
+export class AlertEngine {
+  private readonly firing = new Set<string>();
+
+  constructor(private readonly options: AlertOptions) {
+    const ids = new Set<string>();
+    for (const rule of options.rules) {
+      if (ids.has(rule.id)) throw new Error(`Duplicate alert rule id "${rule.id}"`);
+      ids.add(rule.id);
+    }
+  }
+
+  /** Returns the events that fired; results with an error are ignored */
+  async evaluate(usages: AccountUsage[]): Promise<AlertEvent[]> {
+    const events: AlertEvent[] = [];
+    for (const usage of usages) {
+      if (usage.error) continue;
+      for (const rule of this.options.rules) {
+        const event = this.check(rule, usage);
+        if (event) events.push(event);
+      }
+    }
+    await Promise.all(events.flatMap(event => this.options.notifiers.map(async notifier => {
+      try {
+        await notifier.notify(event);
+      } catch (err) {
+        this.options.onNotifierError?.(err as Error, event);
+      }
+    })));
+    return events;
+  }
+
+  private check(rule: AlertRule, usage: AccountUsage): AlertEvent | null {
+    if (rule.accounts && !rule.accounts.includes(usage.accountName)) return null;
+    const value = metricValue(usage, rule.metric);
+    if (value === null) return null;
+
+    const key = `${rule.id}\0${usage.accountName}`;
+    if (this.firing.has(key)) {
+      const hysteresis = rule.hysteresis ?? rule.threshold * DEFAULT_HYSTERESIS_FRACTION;
+      if (value < rule.threshold - hysteresis) this.firing.delete(key);
+      return null;
+    }
+    if (value < rule.threshold) return null;
+
+    this.firing.add(key);
+    return {
+      ruleId: rule.id,
+      accountName: usage.accountName,
+      metric: rule.metric,
+      value,
+      threshold: rule.threshold,
+      firedAt: new Date(),
+      message: `${usage.accountName}: ${rule.metric} at ${formatValue(rule.metric, value)} (threshold ${formatValue(rule.metric, rule.threshold)})`,
+    };
+  }
+}
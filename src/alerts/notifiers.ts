@@ -0,0 +1,107 @@
+// src/alerts/notifiers.ts — built-in alert delivery channels
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { spawn } from 'node:child_process';
+import { request } from '../http/index.js';
+import type { AlertNotifier } from './types.js';
+import type { AlertEvent, FetchFunction } from '../types.js';
+
+const COMMAND_TIMEOUT_MS = 30_000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+function serialize(event: AlertEvent): string {
+  return JSON.stringify({ ...event, firedAt: event.firedAt.toISOString() });
+}
+
+/** Hands each event to a function */
+export class CallbackNotifier implements AlertNotifier {
+  constructor(private readonly callback: (event: AlertEvent) => void | Promise<void>) {}
+
+  async notify(event: AlertEvent): Promise<void> {
+    await this.callback(event);
+  }
+}
+
+/** Appends each event as a JSON line */
+export class FileNotifier implements AlertNotifier {
+  constructor(private readonly filePath: string) {}
+
+  async notify(event: AlertEvent): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${serialize(event)}\n`, 'utf8');
+  }
+}
+
+export interface CommandNotifierOptions {
+  /** Kill the command after this many milliseconds (default 30s) */
+  timeoutMs?: number;
+}
+
+/**
+ * Runs a local command per event (without a shell). The event is written to stdin as JSON and
+ * its message is also available as the CLAUDE_USAGE_ALERT_MESSAGE environment variable.
+ */
+export class CommandNotifier implements AlertNotifier {
+  constructor(
+    private readonly command: string,
+    private readonly args: string[] = [],
+    private readonly options: CommandNotifierOptions = {},
+  ) {}
+
+  notify(event: AlertEvent): Promise<void> {
+    const timeoutMs = this.options.timeoutMs ?? COMMAND_TIMEOUT_MS;
+    return new Promise<void>((resolve, reject) => {
+      const child = spawn(this.command, this.args, {
+        stdio: ['pipe', 'ignore', 'ignore'],
+        env: {
+          ...process.env,
+          CLAUDE_USAGE_ALERT_RULE: event.ruleId,
+          CLAUDE_USAGE_ALERT_ACCOUNT: event.accountName,
+          CLAUDE_USAGE_ALERT_MESSAGE: event.message,
+        },
+      });
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new Error(`Alert command ${this.command} timed out`));
+      }, timeoutMs);
+      child.on('error', err => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to run alert command ${this.command}: ${err.message}`));
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code === 0) resolve();
+        else reject(new Error(`Alert command ${this.command} exited with code ${code}`));
+      });
+      child.stdin.on('error', () => { /* command may exit without reading stdin */ });
+      child.stdin.end(serialize(event));
+    });
+  }
+}
+
+export interface WebhookNotifierOptions {
+  /** Extra request headers, e.g. an authorization token */
+  headers?: Record<string, string>;
+  /** Abort the request after this many milliseconds (default 10s) */
+  timeoutMs?: number;
+  /** Transport override; the default honors the proxy environment variables */
+  fetch?: FetchFunction;
+}
+
+/** POSTs each event as JSON */
+export class WebhookNotifier implements AlertNotifier {
+  constructor(
+    private readonly url: string,
+    private readonly options: WebhookNotifierOptions = {},
+  ) {}
+
+  async notify(event: AlertEvent): Promise<void> {
+    const response = await request(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: serialize(event),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? WEBHOOK_TIMEOUT_MS),
+    }, { retry: false, fetch: this.options.fetch });
+    if (!response.ok) throw new Error(`Alert webhook responded ${response.status}`);
+  }
+}
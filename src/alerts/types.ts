@@ -0,0 +1,6 @@
+// src/alerts/types.ts
+import type { AlertEvent } from '../types.js';
+
+export interface AlertNotifier {
+  notify(event: AlertEvent): Promise<void>;
+}
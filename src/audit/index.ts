@@ -0,0 +1,42 @@
+// src/audit/index.ts — append-only encrypted log of account and credential mutations
+import { EncryptedLineLog } from '../storage/line-log.js';
+import type { AuditEntry, AuditQuery, EncryptionOptions, LockOptions } from '../types.js';
+
+const AUDIT_FORMAT = 'claude-usage-core/audit-log';
+
+interface StoredEntry extends Omit<AuditEntry, 'at'> {
+  at: string;
+}
+
+export class AuditLog {
+  private readonly log: EncryptedLineLog;
+
+  constructor(filePath: string, encryption?: EncryptionOptions, lockOptions?: LockOptions) {
+    this.log = new EncryptedLineLog(filePath, AUDIT_FORMAT, encryption, lockOptions);
+  }
+
+  async append(entry: Omit<AuditEntry, 'at'> & { at?: Date }): Promise<void> {
+    const stored: StoredEntry = { ...entry, at: (entry.at ?? new Date()).toISOString() };
+    await this.log.append([JSON.stringify(stored)]);
+  }
+
+  /** Returns matching entries, oldest first. Lines that fail to decrypt are skipped. */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    for (const line of await this.log.read()) {
+      const stored = JSON.parse(line) as StoredEntry;
+      const entry: AuditEntry = { ...stored, at: new Date(stored.at) };
+      if (query.since && entry.at < query.since) continue;
+      if (query.until && entry.at > query.until) continue;
+      if (query.account !== undefined && entry.account !== query.account) continue;
+      if (query.operation && entry.operation !== query.operation) continue;
+      entries.push(entry);
+    }
+    return query.limit !== undefined ? entries.slice(-query.limit) : entries;
+  }
+
+  /** Re-wraps the log's data key under new key material; entries are left untouched. */
+  async rekey(encryption: EncryptionOptions): Promise<void> {
+    await this.log.rekey(encryption);
+  }
+}
@@ -1,19 +1,39 @@
 // src/client.ts
+import { createHash } from 'node:crypto';
+import { watch, type FSWatcher } from 'node:fs';
+import { readFile } from 'node:fs/promises';
 import { homedir } from 'node:os';
-import { join } from 'node:path';
-import { AccountStore } from './storage/index.js';
-import { createCredentialReader, type Platform } from './credentials/index.js';
+import { basename, dirname, join } from 'node:path';
+import { AccountStore, type AccountStorage } from './storage/index.js';
+import { createBundle, openBundle } from './storage/bundle.js';
+import { AuditLog } from './audit/index.js';
+import { UsageHistoryRecorder, HISTORY_FORMAT, WINDOW_NAMES } from './history/index.js';
+import { forecastWindow, WINDOW_LENGTHS_MS } from './forecast/index.js';
+import { assessHealth } from './health/index.js';
+import { AlertEngine } from './alerts/index.js';
+import { UsageWatcher, abortableSleep } from './watch/index.js';
+import { EncryptedLineLog, PlainLineLog } from './storage/line-log.js';
+import { withFileLock } from './storage/lock.js';
+import { createCredentialReader, credentialsFilePath, type Platform } from './credentials/index.js';
+import { backupPath, readClaudeCodeRefreshToken, restoreClaudeCodeCredentials, writeClaudeCodeCredentials } from './credentials/claude-code.js';
 import { validateToken, refreshToken } from './tokens/index.js';
-import { fetchProfile, fetchUsage, transformUsageData } from './usage/index.js';
+import { fetchProfile, fetchUsage, transformProfile, transformUsageData } from './usage/index.js';
+import { UsageCache, type CachedUsage } from './usage/cache.js';
+import { RetryBudget, DEFAULT_RETRY_POLICY, type RequestOptions } from './http/index.js';
 import { fetchMessagesUsage, transformMessagesUsage, fetchCostReport, transformCostReport } from './admin/index.js';
 import { authorize, type AuthorizeOptions } from './auth/index.js';
-import { AccountNotFoundError, AuthenticationError } from './errors.js';
-import type { Account, AccountUsage, OAuthAccountUsage, AdminAccountUsage, ClaudeUsageClientOptions, UsageOptions, ClaudeCredentials, AdminCredentials } from './types.js';
+import { AccountNotFoundError, AuthenticationError, InvalidCredentialsError, StorageError, TokenExpiredError, toErrorInfo, type ErrorCode } from './errors.js';
+import type { Account, AccountFilter, AccountMetadataUpdate, AccountUsage, OAuthAccountUsage, AdminAccountUsage, AuditEntry, AuditOperation, AuditQuery, BackupInfo, ClaudeUsageClientOptions, UsageForecast, UsageHistory, UsageHistoryQuery, EncryptionOptions, RecoverOptions, RecoveryResult, ExportOptions, ImportOptions, ImportResult, UsageOptions, UsageChangeEvent, WatchUsageOptions, ClaudeCredentials, AdminCredentials, SavedAccount, AccountProfile, SavedProfile, ResponseValidation, RetryPolicy, FetchFunction, ApiBaseUrls, LockOptions, AccountHealth, HealthCheckOptions, SystemSyncResult, WatchSystemCredentialsOptions, ClaudeCodeCredentialsOptions } from './types.js';
 
 const DEFAULT_STORAGE = join(homedir(), '.claude-usage', 'accounts.enc');
+const DEFAULT_CACHE_MAX_AGE_MS = 60_000;
+const PROFILE_REFRESH_MS = 24 * 60 * 60_000;
+const PROFILE_RETRY_MS = 60 * 60_000;
+const DEFAULT_SYNC_DEBOUNCE_MS = 250;
 
 const EMPTY_OAUTH_USAGE: Omit<OAuthAccountUsage, 'accountName' | 'error'> = {
   accountType: 'oauth',
+  windows: {},
   session: { percent: 0, resetsAt: null },
   weekly: { percent: 0, resetsAt: null },
   opus: null,
@@ -24,14 +44,78 @@ const EMPTY_OAUTH_USAGE: Omit<OAuthAccountUsage, 'accountName' | 'error'> = {
   extraUsage: { isEnabled: false, monthlyLimit: null, usedCredits: null, utilization: null },
 };
 
+function hasTags(account: SavedAccount, tags: string[] | undefined): boolean {
+  if (!tags || tags.length === 0) return true;
+  return tags.every(t => account.tags?.includes(t));
+}
+
+function reviveProfile(profile: SavedProfile): AccountProfile {
+  return { ...structuredClone(profile), fetchedAt: new Date(profile.fetchedAt) };
+}
+
+function serializeProfile(profile: AccountProfile): SavedProfile {
+  return { ...profile, fetchedAt: profile.fetchedAt.toISOString() };
+}
+
 export class ClaudeUsageClient {
-  private readonly store: AccountStore;
+  private readonly store: AccountStorage;
   private readonly betaVersion: string;
+  private readonly responseValidation: ResponseValidation;
+  private readonly retry: RetryPolicy | false;
+  private readonly fetch?: FetchFunction;
+  private readonly baseUrls?: ApiBaseUrls;
   private readonly platform: Platform;
+  private readonly audit: AuditLog | null;
+  private readonly usageCache: UsageCache;
+  private readonly history: UsageHistoryRecorder | null;
+  private readonly alerts: AlertEngine | null;
+  /** Last profile fetch attempt per account, so a failing endpoint is not hit on every poll */
+  private readonly profileAttempts = new Map<string, number>();
+  /** Code of the latest failed fetch per account, cleared by a success */
+  private readonly lastErrors = new Map<string, ErrorCode>();
+  /** In-flight token refresh per account; concurrent callers share it */
+  private readonly refreshes = new Map<string, Promise<string>>();
+  /** Accounts file that per-account refresh lock files sit next to; null with a custom storage backend */
+  private readonly refreshLockBase: string | null;
+  private readonly lockOptions?: LockOptions;
+  /** Claude Code credentials files written by activateForClaudeCode(), besides the platform default */
+  private readonly claudeCodePaths = new Set<string>();
 
   constructor(options: ClaudeUsageClientOptions = {}) {
-    this.store = new AccountStore(options.storagePath ?? DEFAULT_STORAGE);
+    const storagePath = options.storagePath ?? DEFAULT_STORAGE;
+    this.store = options.storage ?? new AccountStore(storagePath, {
+      encryption: options.encryption,
+      lock: options.lock,
+      backups: options.backups,
+    });
+    const auditPath = options.auditLog === false ? undefined
+      : options.auditLog?.path ?? (options.storage ? undefined : join(dirname(storagePath), 'audit.log.enc'));
+    this.audit = auditPath ? new AuditLog(auditPath, options.encryption, options.lock) : null;
+    const cachePath = options.usageCache === false ? null
+      : options.usageCache?.path ?? (options.storage ? null : join(dirname(storagePath), 'usage-cache.enc'));
+    this.usageCache = new UsageCache(cachePath, options.encryption, options.lock);
+    this.history = null;
+    if (options.history) {
+      const { format = 'encrypted', retentionDays } = options.history;
+      // Like the audit log and cache, history is never written to the default location for a custom backend
+      if (options.storage && !options.history.path) {
+        throw new Error('history.path is required when a custom storage backend is used');
+      }
+      const historyPath = options.history.path
+        ?? join(dirname(storagePath), format === 'jsonl' ? 'usage-history.jsonl' : 'usage-history.log.enc');
+      const log = format === 'jsonl'
+        ? new PlainLineLog(historyPath, options.lock)
+        : new EncryptedLineLog(historyPath, HISTORY_FORMAT, options.encryption, options.lock);
+      this.history = new UsageHistoryRecorder(log, retentionDays);
+    }
+    this.alerts = options.alerts ? new AlertEngine(options.alerts) : null;
+    this.refreshLockBase = options.storage ? null : storagePath;
+    this.lockOptions = options.lock;
     this.betaVersion = options.betaVersion ?? 'oauth-2025-04-20';
+    this.responseValidation = options.responseValidation ?? 'strict';
+    this.retry = options.retry ?? {};
+    this.fetch = options.fetch;
+    this.baseUrls = options.baseUrls;
     this.platform = options.platform ?? 'auto';
   }
 
@@ -47,17 +131,30 @@ export class ClaudeUsageClient {
     }
   }
 
-  async listAccounts(): Promise<Account[]> {
+  async listAccounts(filter?: AccountFilter): Promise<Account[]> {
     const data = await this.store.load();
-    return data.accounts.map(a => ({
+    return data.accounts.filter(a => hasTags(a, filter?.tags)).map(a => ({
       name: a.name,
       email: a.email,
       accountType: a.accountType ?? 'oauth',
       isActive: a.name === data.activeAccountName,
       savedAt: new Date(a.savedAt),
+      tags: a.tags ?? [],
+      ...(a.note !== undefined ? { note: a.note } : {}),
+      ...(a.color !== undefined ? { color: a.color } : {}),
+      enabled: a.enabled ?? true,
+      ...(a.profile !== undefined ? { profile: reviveProfile(a.profile) } : {}),
     }));
   }
 
+  /** Updates tags, note, color or the enabled flag without touching credentials */
+  async updateAccountMetadata(name: string, update: AccountMetadataUpdate): Promise<void> {
+    await this._audited('account.update-metadata', name, async () => {
+      const updated = await this.store.updateAccountMetadata(name, update);
+      if (!updated) throw new AccountNotFoundError(name);
+    }, Object.keys(update).join(','));
+  }
+
   async authenticate(name: string, options?: AuthorizeOptions): Promise<void> {
     const credentials = await authorize(options);
     await this.saveAccount(name, credentials);
@@ -67,20 +164,111 @@ export class ClaudeUsageClient {
     const creds = credentials ?? await this._readSystemCredentials();
     if (!creds) throw new Error('No credentials available to save');
 
-    // Try to fetch the account email from the profile API
+    // Try to fetch the account email and plan details from the profile API
     let email: string | undefined;
+    let profile: AccountProfile | undefined;
     try {
       const parsed: ClaudeCredentials = JSON.parse(creds);
       const token = parsed.claudeAiOauth?.accessToken;
       if (token) {
-        const profile = await fetchProfile(token, this.betaVersion);
-        email = profile.account.email;
+        const response = await fetchProfile(token, this.betaVersion, this._requestOptions());
+        email = response.account.email;
+        profile = transformProfile(response);
       }
     } catch {
       // Profile fetch is best-effort — save without email
     }
 
-    await this.store.saveAccount(name, creds, email, 'oauth');
+    await this._audited('account.save', name, () => this.store.saveAccount(name, creds, email, 'oauth', profile && serializeProfile(profile)), 'oauth');
+  }
+
+  /**
+   * Copies the system credentials over the saved account they belong to, matched by profile
+   * account uuid and then email, once Claude Code has rotated them. Older system tokens are
+   * left alone. Throws when the profile cannot be fetched with the system token.
+   */
+  async syncFromSystem(): Promise<SystemSyncResult> {
+    return this._syncCredentials(await this._readSystemCredentials());
+  }
+
+  /**
+   * Runs syncFromSystem() against the credentials file each time it changes and yields the
+   * result. Sync failures are yielded with status `error` rather than ending the iteration; the
+   * iteration throws when the credentials directory does not exist or the watch itself fails.
+   */
+  async *watchSystemCredentials(options: WatchSystemCredentialsOptions = {}): AsyncGenerator<SystemSyncResult, void, undefined> {
+    const { signal } = options;
+    const path = options.path ?? credentialsFilePath(this.platform);
+    if (!path) throw new Error('The macOS Keychain cannot be watched; pass a credentials file path');
+
+    let changed = false;
+    let failure: Error | null = null;
+    let wake = () => {};
+    const dir = dirname(path);
+    let watcher: FSWatcher;
+    try {
+      // Watch the directory: credential writers replace the file, which ends a watch on the file itself
+      watcher = watch(dir, (_event, filename) => {
+        if (filename !== basename(path)) return;
+        changed = true;
+        wake();
+      });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      throw new Error(`Cannot watch ${path}: the directory ${dir} does not exist`, { cause: err });
+    }
+    watcher.on('error', err => {
+      failure = new Error(`Watching ${path} failed: ${err.message}`, { cause: err });
+      wake();
+    });
+    const onAbort = () => wake();
+    signal?.addEventListener('abort', onAbort);
+    try {
+      while (!signal?.aborted) {
+        if (!changed && !failure) await new Promise<void>(resolve => { wake = resolve; });
+        if (failure) throw failure;
+        await abortableSleep(options.debounceMs ?? DEFAULT_SYNC_DEBOUNCE_MS, signal);
+        if (signal?.aborted) return;
+        if (failure) throw failure;
+        changed = false;
+        const credentials = await readFile(path, 'utf8').then(content => content.trim(), () => null);
+        yield await this._syncCredentials(credentials).catch((err): SystemSyncResult =>
+          ({ status: 'error', accountName: null, error: (err as Error).message, errorInfo: toErrorInfo(err), at: new Date() }));
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      watcher.close();
+    }
+  }
+
+  /**
+   * Makes the `claude` CLI use a saved OAuth account by writing its credentials to Claude Code's
+   * credentials file, and marks it active here. The file from before the first activation is
+   * backed up, and the replaced tokens are synced back to their saved account so rotations by
+   * Claude Code are not lost.
+   */
+  async activateForClaudeCode(name: string, options: ClaudeCodeCredentialsOptions = {}): Promise<void> {
+    const path = this._claudeCodeCredentialsPath(options);
+    const account = (await this.store.load()).accounts.find(a => a.name === name);
+    if (!account) throw new AccountNotFoundError(name);
+    if (account.accountType === 'admin') throw new Error('Cannot activate an admin account for Claude Code');
+
+    // Best-effort — activation must not depend on the outgoing token still working
+    const current = await readFile(path, 'utf8').catch(() => null);
+    if (current) await this._syncCredentials(current.trim()).catch(() => {});
+
+    await this._audited('claude-code.activate', name, () => this._withRefreshLock(name, async () => {
+      const credentials = (await this.store.load()).accounts.find(a => a.name === name)?.credentials ?? account.credentials;
+      await writeClaudeCodeCredentials(path, credentials);
+      this.claudeCodePaths.add(path);
+      await this.store.setActiveAccount(name);
+    }));
+  }
+
+  /** Puts back the credentials file from before the first activateForClaudeCode(); false when there is no backup */
+  async restoreClaudeCodeCredentials(options: ClaudeCodeCredentialsOptions = {}): Promise<boolean> {
+    const path = this._claudeCodeCredentialsPath(options);
+    return this._audited('claude-code.restore', null, () => restoreClaudeCodeCredentials(path));
   }
 
   async saveAdminAccount(name: string, adminApiKey: string): Promise<void> {
@@ -88,26 +276,166 @@ export class ClaudeUsageClient {
       throw new Error('Invalid admin API key format — must start with "sk-ant-admin"');
     }
     // Validate the key works by fetching usage (will throw on 401)
-    await fetchMessagesUsage(adminApiKey);
+    await fetchMessagesUsage(adminApiKey, undefined, this._requestOptions());
     const creds: AdminCredentials = { adminApiKey };
-    await this.store.saveAccount(name, JSON.stringify(creds), undefined, 'admin');
+    await this._audited('account.save', name, () => this.store.saveAccount(name, JSON.stringify(creds), undefined, 'admin'), 'admin');
   }
 
   async switchAccount(name: string): Promise<void> {
-    const data = await this.store.load();
-    const account = data.accounts.find(a => a.name === name);
-    if (!account) throw new AccountNotFoundError(name);
-    await this.store.setActiveAccount(name);
+    await this._audited('account.switch', name, async () => {
+      const data = await this.store.load();
+      const account = data.accounts.find(a => a.name === name);
+      if (!account) throw new AccountNotFoundError(name);
+      await this.store.setActiveAccount(name);
+    });
   }
 
   async deleteAccount(name: string): Promise<void> {
-    const deleted = await this.store.deleteAccount(name);
-    if (!deleted) throw new AccountNotFoundError(name);
+    await this._audited('account.delete', name, async () => {
+      const deleted = await this.store.deleteAccount(name);
+      if (!deleted) throw new AccountNotFoundError(name);
+    });
+    await this.usageCache.remove(name).catch(() => {});
+    await this.history?.removeAccount(name).catch(() => {});
   }
 
   async renameAccount(oldName: string, newName: string): Promise<void> {
-    const renamed = await this.store.renameAccount(oldName, newName);
-    if (!renamed) throw new AccountNotFoundError(oldName);
+    await this._audited('account.rename', oldName, async () => {
+      const renamed = await this.store.renameAccount(oldName, newName);
+      if (!renamed) throw new AccountNotFoundError(oldName);
+    }, `to ${JSON.stringify(newName)}`);
+    await this.usageCache.rename(oldName, newName).catch(() => {});
+    await this.history?.renameAccount(oldName, newName).catch(() => {});
+  }
+
+  /**
+   * Exports accounts as a passphrase-encrypted bundle that can be imported on another machine.
+   * Credentials never leave the bundle in plaintext.
+   */
+  async exportAccounts(options: ExportOptions): Promise<string> {
+    return this._audited('accounts.export', null, async () => {
+      const data = await this.store.load();
+      let accounts = data.accounts;
+      if (options.names) {
+        const missing = options.names.find(n => !data.accounts.some(a => a.name === n));
+        if (missing !== undefined) throw new AccountNotFoundError(missing);
+        accounts = data.accounts.filter(a => options.names!.includes(a.name));
+      }
+      return createBundle(accounts, data.schemaVersion, options.passphrase, options.kdf);
+    }, options.names?.join(','));
+  }
+
+  /** Imports a bundle from `exportAccounts()`, keeping email, account type and savedAt. */
+  async importAccounts(bundle: string, options: ImportOptions): Promise<ImportResult> {
+    const result = await this._audited('accounts.import', null, async () => {
+      const accounts = await openBundle(bundle, options.passphrase);
+      return this.store.importAccounts(accounts, options.onConflict ?? 'skip');
+    });
+    for (const name of result.imported) await this._audit('account.save', name, 'success', 'import');
+    return result;
+  }
+
+  /**
+   * Re-encrypts saved accounts under new key material (e.g. switching to a passphrase), then the
+   * audit log, usage cache and history. If one of those fails, the others are still rekeyed and
+   * a StorageError naming it is thrown — it would be unreadable under the new key.
+   */
+  async rekey(encryption: EncryptionOptions): Promise<void> {
+    if (!this.store.rekey) throw new StorageError('Configured storage does not support rekey');
+    await this._audited('storage.rekey', null, () => this.store.rekey!(encryption), encryption.mode);
+    const records: [string, { rekey(encryption: EncryptionOptions): Promise<void> } | null][] = [
+      ['audit log', this.audit],
+      ['usage cache', this.usageCache],
+      ['usage history', this.history],
+    ];
+    const failures: string[] = [];
+    for (const [label, record] of records) {
+      await record?.rekey(encryption).catch(err => failures.push(`${label} (${(err as Error).message})`));
+    }
+    if (failures.length > 0) {
+      await this._audit('storage.rekey', null, 'failure', `not rekeyed: ${failures.join(', ')}`);
+      throw new StorageError(`Accounts were re-encrypted, but not the ${failures.join(', ')}`);
+    }
+  }
+
+  /** Lists backups of the accounts file, newest first */
+  async listBackups(): Promise<BackupInfo[]> {
+    if (!this.store.listBackups) throw new StorageError('Configured storage does not keep backups');
+    return this.store.listBackups();
+  }
+
+  /** Restores the newest backup that decrypts, e.g. after `StorageCorruptedError` */
+  async recoverStorage(options?: RecoverOptions): Promise<RecoveryResult> {
+    if (!this.store.recover) throw new StorageError('Configured storage does not keep backups');
+    return this._audited('storage.recover', null, () => this.store.recover!(options));
+  }
+
+  /** Recorded utilization per window for an account; requires the `history` client option */
+  async getUsageHistory(name: string, query?: UsageHistoryQuery): Promise<UsageHistory> {
+    if (!this.history) throw new StorageError('Usage history is not enabled — pass the `history` client option');
+    const data = await this.store.load();
+    if (!data.accounts.some(a => a.name === name)) throw new AccountNotFoundError(name);
+    return this.history.query(name, query);
+  }
+
+  /**
+   * Burn rate, projected utilization at reset, time to 100% and pace for each window of known
+   * length. Uses recorded samples when `history` is enabled for a trend-based rate.
+   */
+  async forecastUsage(name: string, options?: UsageOptions): Promise<UsageForecast> {
+    const usage = await this.getAccountUsage(name, options);
+    if (usage.accountType === 'admin') throw new Error('Cannot forecast usage for an admin account');
+    const asOf = usage.fetchedAt ?? new Date();
+    if (usage.error && !usage.stale) return { accountName: name, asOf, windows: {}, error: usage.error };
+
+    const lookback = Math.max(...Object.values(WINDOW_LENGTHS_MS));
+    const history: UsageHistory = this.history
+      ? await this.history.query(name, { from: new Date(asOf.getTime() - lookback) }).catch(() => ({}))
+      : {};
+    const forecast: UsageForecast = { accountName: name, asOf, windows: {} };
+    for (const window of WINDOW_NAMES) {
+      const current = usage[window];
+      if (current && WINDOW_LENGTHS_MS[window]) {
+        forecast.windows[window] = forecastWindow(window, current, history[window] ?? [], asOf);
+      }
+    }
+    return forecast;
+  }
+
+  /**
+   * Which accounts will stop working, and why: token expiry and refreshability, the last
+   * successful fetch and last error, and for admin accounts a probe of the key. Makes no
+   * OAuth requests; `lastErrorCode` covers fetches made by this client.
+   */
+  async checkHealth(options: HealthCheckOptions = {}): Promise<AccountHealth[]> {
+    const data = await this.store.load();
+    const snapshots = await this.usageCache.get(data.accounts.map(a => a.name)).catch(() => new Map<string, CachedUsage>());
+    const http = this._requestOptions(true);
+    const now = new Date();
+    return Promise.all(data.accounts.map(async account => {
+      let authenticated: boolean | null = null;
+      if (account.accountType === 'admin' && options.probeAdminKeys !== false) {
+        try {
+          const creds: AdminCredentials = JSON.parse(account.credentials);
+          await fetchCostReport(creds.adminApiKey, now.toISOString().slice(0, 10), http);
+          authenticated = true;
+          this.lastErrors.delete(account.name);
+        } catch (err) {
+          if (err instanceof AuthenticationError) authenticated = false;
+          this.lastErrors.set(account.name, toErrorInfo(err).code);
+        }
+      }
+      return assessHealth(account, {
+        lastSuccessAt: snapshots.get(account.name)?.fetchedAt ?? null,
+        lastErrorCode: this.lastErrors.get(account.name) ?? null,
+        authenticated,
+      }, now, options.expiryWarningDays);
+    }));
+  }
+
+  /** Audit log entries, oldest first; empty when the audit log is disabled */
+  async getAuditLog(query?: AuditQuery): Promise<AuditEntry[]> {
+    return this.audit ? this.audit.query(query) : [];
   }
 
   async refreshToken(name: string): Promise<void> {
@@ -123,35 +451,110 @@ export class ClaudeUsageClient {
     await this.authenticate(name);
   }
 
+  /** Fetches usage for every enabled account (optionally only those with `options.tags`) */
   async getAllAccountsUsage(options?: UsageOptions): Promise<AccountUsage[]> {
     const data = await this.store.load();
-    return Promise.all(
-      data.accounts.map(a => this._fetchAccountUsage(a, options))
-    );
+    const accounts = data.accounts.filter(a => (a.enabled ?? true) && hasTags(a, options?.tags));
+    return this._fetchUsageWithCache(accounts, options);
   }
 
   async getAccountUsage(name: string, options?: UsageOptions): Promise<AccountUsage> {
     const data = await this.store.load();
     const account = data.accounts.find(a => a.name === name);
     if (!account) throw new AccountNotFoundError(name);
-    return this._fetchAccountUsage(account, options);
+    const [usage] = await this._fetchUsageWithCache([account], options);
+    return usage;
+  }
+
+  /**
+   * Polls usage and yields what changed: per-window utilization, resets, admin cost and errors.
+   * Polls faster as a window nears 100% or its reset and backs off while every fetch fails.
+   * Ends when `options.signal` aborts or the consumer stops iterating.
+   */
+  async *watchUsage(options: WatchUsageOptions = {}): AsyncGenerator<UsageChangeEvent, void, undefined> {
+    const { signal } = options;
+    const watcher = new UsageWatcher(options);
+    while (!signal?.aborted) {
+      const data = await this.store.load();
+      const accounts = data.accounts.filter(a => options.accounts
+        ? options.accounts.includes(a.name)
+        : (a.enabled ?? true) && hasTags(a, options.tags));
+      const usages = await this._fetchUsageWithCache(accounts, options);
+      if (signal?.aborted) return;
+      yield* watcher.update(usages, new Date());
+      await abortableSleep(watcher.nextDelay(new Date()), signal);
+    }
+  }
+
+  /** Applies the `options.cache` policy around network fetches and records successful snapshots */
+  private async _fetchUsageWithCache(accounts: SavedAccount[], options?: UsageOptions): Promise<AccountUsage[]> {
+    const policy = options?.cache ?? 'network-only';
+    const cached = policy === 'network-only'
+      ? new Map<string, CachedUsage>()
+      : await this.usageCache.get(accounts.map(a => a.name));
+    const fresh = new Map<string, CachedUsage>();
+    const http = { ...this._requestOptions(true), ...(options?.signal ? { signal: options.signal } : {}) };
+
+    const results = await Promise.all(accounts.map(async (account): Promise<AccountUsage> => {
+      const accountType = account.accountType ?? 'oauth';
+      const startingAt = accountType === 'admin' ? options?.startingAt : undefined;
+      const snapshot = cached.get(account.name);
+      const usable = snapshot && snapshot.usage.accountType === accountType && snapshot.startingAt === startingAt
+        ? snapshot
+        : undefined;
+      const age = usable ? Date.now() - usable.fetchedAt.getTime() : Infinity;
+
+      if (policy === 'cache-first' && usable && age <= (options?.maxAgeMs ?? DEFAULT_CACHE_MAX_AGE_MS)) {
+        return { ...usable.usage, fetchedAt: usable.fetchedAt, stale: false };
+      }
+      const usage = await this._fetchAccountUsage(account, http, options);
+      if (!usage.error) {
+        this.lastErrors.delete(account.name);
+        const fetchedAt = new Date();
+        fresh.set(account.name, { fetchedAt, ...(startingAt !== undefined ? { startingAt } : {}), usage });
+        return { ...usage, fetchedAt, stale: false };
+      }
+      this.lastErrors.set(account.name, usage.errorInfo?.code ?? 'unknown');
+      if (policy === 'stale-while-error' && usable && age <= (options?.maxAgeMs ?? Infinity)) {
+        return { ...usable.usage, fetchedAt: usable.fetchedAt, stale: true, error: usage.error, errorInfo: usage.errorInfo };
+      }
+      return usage;
+    }));
+
+    // The cache and history are side records — a failed write must not fail the fetch
+    await this.usageCache.set(fresh).catch(() => {});
+    if (this.history) {
+      const samples = [...fresh.values()].flatMap(({ fetchedAt, usage }) =>
+        usage.accountType === 'oauth' ? [{ at: fetchedAt, usage }] : []);
+      await this.history.record(samples).catch(() => {});
+    }
+    await this.alerts?.evaluate(results);
+    return results;
   }
 
-  private async _fetchAccountUsage(account: { name: string; email?: string; credentials: string; accountType?: string }, options?: UsageOptions): Promise<AccountUsage> {
+  /** Request settings for API calls; `withBudget` caps the retries of one top-level call */
+  private _requestOptions(withBudget = false): RequestOptions {
+    const budget = withBudget && this.retry !== false
+      ? new RetryBudget(this.retry.budget ?? DEFAULT_RETRY_POLICY.budget)
+      : undefined;
+    return { validation: this.responseValidation, retry: this.retry, fetch: this.fetch, baseUrls: this.baseUrls, ...(budget ? { budget } : {}) };
+  }
+
+  private async _fetchAccountUsage(account: SavedAccount, http: RequestOptions, options?: UsageOptions): Promise<AccountUsage> {
     const accountType = account.accountType ?? 'oauth';
 
     if (accountType === 'admin') {
-      return this._fetchAdminAccountUsage(account.name, account.credentials, options?.startingAt);
+      return this._fetchAdminAccountUsage(account.name, account.credentials, http, options?.startingAt);
     }
-    return this._fetchOAuthAccountUsage(account.name, account.email, account.credentials);
+    return this._fetchOAuthAccountUsage(account.name, account.email, account.credentials, http, account.profile);
   }
 
-  private async _fetchAdminAccountUsage(name: string, credentialsJson: string, startingAt?: string): Promise<AdminAccountUsage> {
+  private async _fetchAdminAccountUsage(name: string, credentialsJson: string, http: RequestOptions, startingAt?: string): Promise<AdminAccountUsage> {
     try {
       const creds: AdminCredentials = JSON.parse(credentialsJson);
       const [buckets, costBuckets] = await Promise.all([
-        fetchMessagesUsage(creds.adminApiKey, startingAt),
-        fetchCostReport(creds.adminApiKey, startingAt).catch(() => null),
+        fetchMessagesUsage(creds.adminApiKey, startingAt, http),
+        fetchCostReport(creds.adminApiKey, startingAt, http).catch(() => null),
       ]);
       const usage = transformMessagesUsage(buckets, name);
       // Use requested date range for period display instead of data-derived dates
@@ -174,61 +577,187 @@ export class ClaudeUsageClient {
         modelBreakdown: [],
         actors: [],
         error: (err as Error).message,
+        errorInfo: toErrorInfo(err),
       };
     }
   }
 
-  private async _fetchOAuthAccountUsage(name: string, email: string | undefined, credentialsJson: string): Promise<OAuthAccountUsage> {
+  private async _fetchOAuthAccountUsage(name: string, email: string | undefined, credentialsJson: string, http: RequestOptions, savedProfile?: SavedProfile): Promise<OAuthAccountUsage> {
+    const failed = (err: unknown, message = (err as Error).message): OAuthAccountUsage =>
+      ({ ...EMPTY_OAUTH_USAGE, accountName: name, email, error: message, errorInfo: toErrorInfo(err) });
     try {
       let creds = credentialsJson;
       const validation = validateToken(creds);
 
       // Expired — try refresh
       if (validation.isExpired) {
-        const refreshed = await refreshToken(creds);
-        if (refreshed.success && refreshed.newCredentials) {
-          creds = refreshed.newCredentials;
-          await this.store.saveAccount(name, creds);
-        } else {
-          return { ...EMPTY_OAUTH_USAGE, accountName: name, email, error: 'Token expired — refresh failed' };
+        try {
+          creds = await this._refreshStoredToken(name, creds, 'expired', http);
+        } catch (cause) {
+          // The code comes from the cause: only a rejected grant means new credentials are needed
+          return failed(cause, new TokenExpiredError().message);
         }
       }
       // Proactively refresh if < 5 min left
       else if (validation.minutesUntilExpiry !== null && validation.minutesUntilExpiry < 5) {
-        const refreshed = await refreshToken(creds);
-        if (refreshed.success && refreshed.newCredentials) {
-          creds = refreshed.newCredentials;
-          await this.store.saveAccount(name, creds);
-        }
+        creds = await this._refreshStoredToken(name, creds, 'expiring', http).catch(() => creds);
       }
 
       const parsed: ClaudeCredentials = JSON.parse(creds);
       const token = parsed.claudeAiOauth?.accessToken;
-      if (!token) return { ...EMPTY_OAUTH_USAGE, accountName: name, email, error: 'No access token' };
+      if (!token) return failed(new InvalidCredentialsError('No access token'));
 
-      const usage = await fetchUsage(token, this.betaVersion);
-      return { accountType: 'oauth', ...transformUsageData(usage), accountName: name, email };
+      const usage = await fetchUsage(token, this.betaVersion, http);
+      const profile = await this._currentProfile(name, token, savedProfile, http);
+      return { accountType: 'oauth', ...transformUsageData(usage), accountName: name, email, ...(profile ? { profile } : {}) };
     } catch (err) {
       // On 401, attempt refresh once
       if (err instanceof AuthenticationError) {
         try {
-          const refreshed = await refreshToken(credentialsJson);
-          if (refreshed.success && refreshed.newCredentials) {
-            await this.store.saveAccount(name, refreshed.newCredentials);
-            const parsed: ClaudeCredentials = JSON.parse(refreshed.newCredentials);
-            const token = parsed.claudeAiOauth?.accessToken;
-            if (token) {
-              const usage = await fetchUsage(token, this.betaVersion);
-              return { accountType: 'oauth', ...transformUsageData(usage), accountName: name, email };
-            }
+          const refreshed = await this._refreshStoredToken(name, credentialsJson, 'unauthorized', http);
+          const parsed: ClaudeCredentials = JSON.parse(refreshed);
+          const token = parsed.claudeAiOauth?.accessToken;
+          if (token) {
+            const usage = await fetchUsage(token, this.betaVersion, http);
+            const profile = await this._currentProfile(name, token, savedProfile, http);
+            return { accountType: 'oauth', ...transformUsageData(usage), accountName: name, email, ...(profile ? { profile } : {}) };
           }
         } catch { /* fall through */ }
-        return { ...EMPTY_OAUTH_USAGE, accountName: name, email, error: 'Authentication failed' };
+        return failed(err, 'Authentication failed');
       }
-      return { ...EMPTY_OAUTH_USAGE, accountName: name, email, error: (err as Error).message };
+      return failed(err);
+    }
+  }
+
+  /** Returns the stored profile, re-fetching and persisting it when missing or older than a day */
+  private async _currentProfile(name: string, token: string, saved: SavedProfile | undefined, http: RequestOptions): Promise<AccountProfile | undefined> {
+    if (saved && Date.now() - Date.parse(saved.fetchedAt) < PROFILE_REFRESH_MS) return reviveProfile(saved);
+    if (Date.now() - (this.profileAttempts.get(name) ?? 0) < PROFILE_RETRY_MS) return saved ? reviveProfile(saved) : undefined;
+    this.profileAttempts.set(name, Date.now());
+    try {
+      const profile = transformProfile(await fetchProfile(token, this.betaVersion, http));
+      await this.store.updateAccountProfile(name, serializeProfile(profile));
+      return profile;
+    } catch {
+      // Best-effort, like the email lookup in saveAccount — keep whatever we had
+      return saved ? reviveProfile(saved) : undefined;
+    }
+  }
+
+  /**
+   * Refreshes an OAuth token and persists it, recording the attempt in the audit log. Refresh
+   * tokens rotate, so only one refresh per account runs at a time: concurrent calls in this
+   * process share it, and other processes wait on a lock file next to the accounts file.
+   * Rejects with the cause of a failed refresh (see RefreshResult.cause).
+   */
+  private _refreshStoredToken(name: string, credentialsJson: string, reason: string, http = this._requestOptions()): Promise<string> {
+    const pending = this.refreshes.get(name);
+    if (pending) return pending;
+    const refresh = this._withRefreshLock(name, () => this._refreshUnderLock(name, credentialsJson, reason, http))
+      .finally(() => this.refreshes.delete(name));
+    this.refreshes.set(name, refresh);
+    return refresh;
+  }
+
+  private _withRefreshLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    if (!this.refreshLockBase) return fn();
+    const key = createHash('sha256').update(name).digest('hex').slice(0, 16);
+    return withFileLock(`${this.refreshLockBase}.refresh-${key}.lock`, fn, this.lockOptions);
+  }
+
+  private async _refreshUnderLock(name: string, credentialsJson: string, reason: string, http: RequestOptions): Promise<string> {
+    // Another caller may have refreshed while we waited — its tokens are current and ours are spent
+    const stored = (await this.store.load()).accounts.find(a => a.name === name)?.credentials;
+    if (stored && stored !== credentialsJson && !validateToken(stored).isExpired) return stored;
+
+    const refreshed = await refreshToken(credentialsJson, http);
+    if (!refreshed.success || !refreshed.newCredentials) {
+      await this._audit('token.refresh', name, 'failure', `${reason}: ${refreshed.error ?? 'no credentials returned'}`);
+      throw refreshed.cause ?? new TokenExpiredError(refreshed.error);
+    }
+    await this._audited('token.refresh', name, () => this.store.saveAccount(name, refreshed.newCredentials!), reason);
+    await this._shareRefreshedTokens(name, credentialsJson, refreshed.newCredentials);
+    return refreshed.newCredentials;
+  }
+
+  /**
+   * Refreshing spends the refresh token, which Claude Code holds too when the account is the one it
+   * is logged in to — write the new tokens to any credentials file (or its backup) still holding it.
+   */
+  private async _shareRefreshedTokens(name: string, spentJson: string, credentialsJson: string): Promise<void> {
+    let spent: string | undefined;
+    try {
+      spent = (JSON.parse(spentJson) as ClaudeCredentials).claudeAiOauth?.refreshToken;
+    } catch { /* unparseable — nothing to match */ }
+    if (!spent) return;
+    const defaultPath = credentialsFilePath(this.platform);
+    const paths = [...this.claudeCodePaths, ...(defaultPath ? [defaultPath] : [])];
+    for (const path of new Set(paths.flatMap(p => [p, backupPath(p)]))) {
+      if (await readClaudeCodeRefreshToken(path) !== spent) continue;
+      // Best-effort — the refresh itself succeeded and is saved
+      await this._audited('claude-code.activate', name, () => writeClaudeCodeCredentials(path, credentialsJson, { backup: false }), 'refreshed tokens')
+        .catch(() => {});
+    }
+  }
+
+  /** Runs a mutation and records its outcome; failures are logged with the error message and rethrown */
+  private async _audited<T>(operation: AuditOperation, account: string | null, fn: () => Promise<T>, detail?: string): Promise<T> {
+    let result: T;
+    try {
+      result = await fn();
+    } catch (err) {
+      await this._audit(operation, account, 'failure', detail ? `${detail}: ${(err as Error).message}` : (err as Error).message);
+      throw err;
+    }
+    await this._audit(operation, account, 'success', detail);
+    return result;
+  }
+
+  private async _audit(operation: AuditOperation, account: string | null, outcome: AuditEntry['outcome'], detail?: string): Promise<void> {
+    if (!this.audit) return;
+    try {
+      await this.audit.append({ operation, account, outcome, ...(detail ? { detail } : {}) });
+    } catch {
+      // Auditing is best-effort — never fail the operation being recorded
     }
   }
 
+  private async _syncCredentials(credentials: string | null): Promise<SystemSyncResult> {
+    const at = new Date();
+    let token: string | undefined;
+    try {
+      token = (JSON.parse(credentials ?? '') as ClaudeCredentials).claudeAiOauth?.accessToken;
+    } catch { /* unreadable — same as none */ }
+    if (!credentials || !token) return { status: 'no-credentials', accountName: null, at };
+
+    const response = await fetchProfile(token, this.betaVersion, this._requestOptions());
+    const profile = transformProfile(response);
+    const email = response.account.email;
+    const oauth = (await this.store.load()).accounts.filter(a => (a.accountType ?? 'oauth') === 'oauth');
+    const account = oauth.find(a => a.profile?.accountUuid === profile.accountUuid)
+      ?? oauth.find(a => a.email?.toLowerCase() === email.toLowerCase());
+    if (!account) return { status: 'no-match', accountName: null, at };
+
+    const name = account.name;
+    // Under the refresh lock, so a refresh in flight is not overwritten and its result is compared
+    const updated = await this._withRefreshLock(name, async () => {
+      const stored = (await this.store.load()).accounts.find(a => a.name === name)?.credentials;
+      if (stored === undefined || stored === credentials) return false;
+      const storedExpiry = validateToken(stored).expiresAt;
+      const systemExpiry = validateToken(credentials).expiresAt;
+      if (storedExpiry && systemExpiry && systemExpiry < storedExpiry) return false;
+      await this._audited('account.sync', name, () => this.store.saveAccount(name, credentials, email, 'oauth', serializeProfile(profile)));
+      return true;
+    });
+    return { status: updated ? 'updated' : 'unchanged', accountName: name, at };
+  }
+
+  private _claudeCodeCredentialsPath(options: ClaudeCodeCredentialsOptions): string {
+    const path = options.path ?? credentialsFilePath(this.platform);
+    if (!path) throw new Error('Claude Code keeps macOS credentials in the Keychain; pass a credentials file path');
+    return path;
+  }
+
   private async _readSystemCredentials(): Promise<string | null> {
     const reader = createCredentialReader(this.platform);
     return reader.read();
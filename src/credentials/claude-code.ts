@@ -0,0 +1,75 @@
+// src/credentials/claude-code.ts — writes an account's OAuth credentials where Claude Code reads them
+import { access, readFile, rename, unlink } from 'node:fs/promises';
+import { writeFileAtomic } from '../storage/atomic.js';
+import type { ClaudeCredentials } from '../types.js';
+
+// Claude Code's config directory holds secrets; create it private like Claude Code does
+const CLAUDE_DIR = { dirMode: 0o700 };
+
+/** The file as it was before the first activation; empty when there was no file */
+export function backupPath(path: string): string {
+  return `${path}.claude-usage.bak`;
+}
+
+async function exists(path: string): Promise<boolean> {
+  return access(path).then(() => true, () => false);
+}
+
+function ignoreMissing(err: NodeJS.ErrnoException): void {
+  if (err.code !== 'ENOENT') throw err;
+}
+
+/**
+ * Replaces the OAuth credentials in Claude Code's credentials file, keeping its other top-level
+ * keys. Unless a backup already exists (or `backup` is false), the previous file is copied to
+ * backupPath() first, so repeated activations keep the original. Returns the previous content,
+ * or null if there was none.
+ */
+export async function writeClaudeCodeCredentials(path: string, credentialsJson: string, { backup = true } = {}): Promise<string | null> {
+  const oauth = (JSON.parse(credentialsJson) as ClaudeCredentials).claudeAiOauth;
+  if (!oauth?.accessToken) throw new Error('Credentials have no OAuth access token');
+
+  const previous = await readFile(path, 'utf8').catch((err: NodeJS.ErrnoException) => {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  });
+  let existing: Record<string, unknown> = {};
+  try {
+    existing = previous ? JSON.parse(previous) : {};
+  } catch { /* unparseable — replaced, but still backed up */ }
+
+  // Claude Code stores expiresAt as epoch milliseconds; refreshed tokens here carry an ISO string
+  const expiresAt = typeof oauth.expiresAt === 'string' ? Date.parse(oauth.expiresAt) : oauth.expiresAt;
+  const content = JSON.stringify({ ...existing, claudeAiOauth: { ...oauth, expiresAt } });
+  if (backup && !(await exists(backupPath(path)))) await writeFileAtomic(backupPath(path), previous ?? '', CLAUDE_DIR);
+  await writeFileAtomic(path, content, CLAUDE_DIR);
+  return previous;
+}
+
+/** Puts the file from before the first activation back in place; returns false when there is no backup */
+export async function restoreClaudeCodeCredentials(path: string): Promise<boolean> {
+  let original: string;
+  try {
+    original = await readFile(backupPath(path), 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw err;
+  }
+  if (original) {
+    await rename(backupPath(path), path);
+  } else {
+    await unlink(path).catch(ignoreMissing);
+    await unlink(backupPath(path));
+  }
+  return true;
+}
+
+/** The refresh token in a Claude Code credentials file, or null when it is missing or unreadable */
+export async function readClaudeCodeRefreshToken(path: string): Promise<string | null> {
+  try {
+    const creds = JSON.parse(await readFile(path, 'utf8')) as ClaudeCredentials;
+    return creds.claudeAiOauth?.refreshToken ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -1,8 +1,8 @@
 // src/credentials/index.ts
 import type { CredentialReader } from './types.js';
 import { MacOSCredentialReader } from './macos.js';
-import { LinuxCredentialReader } from './linux.js';
-import { WindowsCredentialReader } from './windows.js';
+import { LinuxCredentialReader, credentialsFile as linuxCredentialsFile } from './linux.js';
+import { WindowsCredentialReader, CREDS_FILE as WINDOWS_CREDS_FILE } from './windows.js';
 
 export type Platform = 'auto' | 'macos' | 'linux' | 'windows';
 
@@ -15,6 +15,16 @@ export function createCredentialReader(platform: Platform = 'auto'): CredentialR
   }
 }
 
+/** The credentials file the platform's reader checks first; null on macOS, which only uses the Keychain */
+export function credentialsFilePath(platform: Platform = 'auto'): string | null {
+  const resolved = platform === 'auto' ? detectPlatform() : platform;
+  switch (resolved) {
+    case 'macos': return null;
+    case 'linux': return linuxCredentialsFile();
+    case 'windows': return WINDOWS_CREDS_FILE;
+  }
+}
+
 function detectPlatform(): 'macos' | 'linux' | 'windows' {
   switch (process.platform) {
     case 'darwin': return 'macos';
@@ -5,13 +5,16 @@ import { homedir } from 'node:os';
 import { join } from 'node:path';
 import type { CredentialReader } from './types.js';
 
-const CREDS_FILE = join(homedir(), '.claude', '.credentials.json');
+/** Claude Code's credentials file; `CLAUDE_CONFIG_DIR` replaces `~/.claude` */
+export function credentialsFile(): string {
+  return join(process.env['CLAUDE_CONFIG_DIR'] || join(homedir(), '.claude'), '.credentials.json');
+}
 
 export class LinuxCredentialReader implements CredentialReader {
   async read(): Promise<string | null> {
     // Try file first
     try {
-      const content = await readFile(CREDS_FILE, 'utf8');
+      const content = await readFile(credentialsFile(), 'utf8');
       return content.trim();
     } catch (err) {
       if ((err as NodeJS.ErrnoException).code !== 'ENOENT') return null;
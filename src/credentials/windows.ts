@@ -4,7 +4,7 @@ import { execSync } from 'node:child_process';
 import { join } from 'node:path';
 import type { CredentialReader } from './types.js';
 
-const CREDS_FILE = join(
+export const CREDS_FILE = join(
   process.env['APPDATA'] ?? join(process.env['USERPROFILE'] ?? 'C:\\Users\\Default', 'AppData', 'Roaming'),
   'Claude',
   '.credentials.json'
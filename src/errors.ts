@@ -1,26 +1,129 @@
 // src/errors.ts
+import type { UsageErrorInfo } from './types.js';
+
+/** Stable identifiers for failures; branch on these rather than on messages */
+export type ErrorCode =
+  | 'account_not_found'
+  | 'storage_error'
+  | 'storage_key_error'
+  | 'storage_corrupted'
+  | 'authentication_failed'
+  | 'token_expired'
+  | 'invalid_credentials'
+  | 'rate_limited'
+  | 'network_error'
+  | 'api_error'
+  | 'response_schema'
+  | 'unknown';
+
 export class ClaudeUsageError extends Error {
-  constructor(message: string) {
-    super(message);
+  readonly code: ErrorCode = 'unknown';
+  /** Whether the same call may succeed if repeated later */
+  readonly retryable: boolean = false;
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
     this.name = this.constructor.name;
   }
 }
 
 export class AccountNotFoundError extends ClaudeUsageError {
+  override readonly code = 'account_not_found';
+
   constructor(accountName: string) {
     super(`Account not found: ${accountName}`);
   }
 }
 
 export class StorageError extends ClaudeUsageError {
+  override readonly code: ErrorCode = 'storage_error';
+
   constructor(detail: string) {
     super(`Storage error: ${detail}`);
   }
 }
 
-export class AuthenticationError extends Error {
+/** The configured key cannot decrypt the data (wrong passphrase, machine ID changed, key source mismatch). */
+export class StorageKeyError extends StorageError {
+  override readonly code = 'storage_key_error';
+}
+
+/** The data is truncated or fails integrity checks; a backup may still be recoverable. */
+export class StorageCorruptedError extends StorageError {
+  override readonly code = 'storage_corrupted';
+}
+
+/** The API rejected the credentials (HTTP 401). */
+export class AuthenticationError extends ClaudeUsageError {
+  override readonly code = 'authentication_failed';
+
   constructor(public readonly statusCode: number) {
     super(`Authentication failed (HTTP ${statusCode})`);
-    this.name = 'AuthenticationError';
   }
 }
+
+/** The OAuth token has expired and could not be refreshed. */
+export class TokenExpiredError extends ClaudeUsageError {
+  override readonly code = 'token_expired';
+
+  constructor(detail?: string) {
+    super(`Token expired — refresh failed${detail ? `: ${detail}` : ''}`);
+  }
+}
+
+/** Stored credentials are unusable, e.g. missing an access token. */
+export class InvalidCredentialsError extends ClaudeUsageError {
+  override readonly code = 'invalid_credentials';
+}
+
+/** The API answered with an error status other than 401. Server errors are retryable. */
+export class ApiError extends ClaudeUsageError {
+  override readonly code: ErrorCode = 'api_error';
+  override readonly retryable: boolean;
+
+  constructor(public readonly statusCode: number, message: string) {
+    super(message);
+    this.retryable = statusCode === 408 || statusCode >= 500;
+  }
+}
+
+/** HTTP 429; `retryAfterMs` comes from the Retry-After header when present. */
+export class RateLimitError extends ApiError {
+  override readonly code = 'rate_limited';
+  override readonly retryable = true;
+
+  constructor(message: string, public readonly retryAfterMs: number | null = null) {
+    super(429, message);
+  }
+}
+
+/** The request did not complete: DNS failure, refused or dropped connection, timeout. Keeps the transport's message. */
+export class NetworkError extends ClaudeUsageError {
+  override readonly code = 'network_error';
+  override readonly retryable = true;
+
+  constructor(public readonly url: string, cause: unknown) {
+    super((cause as Error).message, { cause });
+  }
+}
+
+/** An API response did not have the expected shape; `excerpt` is the enclosing JSON with identifying strings redacted. */
+export class ResponseSchemaError extends ClaudeUsageError {
+  override readonly code = 'response_schema';
+
+  constructor(
+    public readonly endpoint: string,
+    public readonly path: string,
+    detail: string,
+    public readonly excerpt: string,
+  ) {
+    super(`Unexpected response from ${endpoint} at ${path}: expected ${detail}`);
+  }
+}
+
+/** Structured form of any thrown value, for usage results */
+export function toErrorInfo(err: unknown, at = new Date()): UsageErrorInfo {
+  if (!(err instanceof ClaudeUsageError)) return { code: 'unknown', retryable: false, statusCode: null, at };
+  const statusCode = 'statusCode' in err && typeof err.statusCode === 'number' ? err.statusCode : null;
+  return { code: err.code, retryable: err.retryable, statusCode, at };
+}
@@ -0,0 +1,86 @@
+// src/forecast/index.ts — burn rate and projections for rolling usage windows
+import type { PaceStatus, UsageSample, UsageWindow, UsageWindowName, WindowForecast } from '../types.js';
+import { HOUR_MS, KNOWN_WINDOWS } from '../usage/windows.js';
+
+/** Known rolling window lengths; windows without one cannot be forecast */
+export const WINDOW_LENGTHS_MS: Partial<Record<UsageWindowName, number>> = Object.fromEntries(
+  Object.values(KNOWN_WINDOWS).flatMap(w => w.durationMs !== undefined ? [[w.name, w.durationMs]] : []),
+);
+
+// Recent samples cover the last fifth of the window (1h for session, ~1.4 days for weekly)
+const RECENT_FRACTION = 0.2;
+// Samples must span at least this long before their slope is trusted
+const MIN_SAMPLE_SPAN_MS = 5 * 60_000;
+// Pace within ±10% counts as on track
+const PACE_TOLERANCE = 0.1;
+
+/** Least-squares slope in percentage points per hour */
+function slopePerHour(points: { at: number; percent: number }[]): number {
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.at, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.percent, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (const p of points) {
+    num += (p.at - meanX) * (p.percent - meanY);
+    den += (p.at - meanX) ** 2;
+  }
+  return den === 0 ? 0 : (num / den) * HOUR_MS;
+}
+
+function paceStatus(pace: number | null): PaceStatus {
+  if (pace === null) return 'unknown';
+  if (pace > 1 + PACE_TOLERANCE) return 'over';
+  if (pace < 1 - PACE_TOLERANCE) return 'under';
+  return 'on-track';
+}
+
+/**
+ * Forecasts one window as of `now`. Uses the trend of recent `samples` from the current window
+ * when there are enough of them, and the average rate since the window opened otherwise.
+ */
+export function forecastWindow(name: UsageWindowName, current: UsageWindow, samples: UsageSample[], now: Date): WindowForecast {
+  const base = { window: name, percent: current.percent, resetsAt: current.resetsAt };
+  const length = WINDOW_LENGTHS_MS[name];
+  if (!length || !current.resetsAt) {
+    return { ...base, burnRatePerHour: null, projectedPercentAtReset: null, exhaustsAt: null, pace: null, paceStatus: 'unknown', basis: 'window-average' };
+  }
+
+  const nowMs = now.getTime();
+  const resetMs = current.resetsAt.getTime();
+  const windowStart = resetMs - length;
+  const elapsed = Math.min(Math.max(nowMs - windowStart, 0), length);
+  const remaining = Math.max(resetMs - nowMs, 0);
+
+  const recentFrom = Math.max(windowStart, nowMs - length * RECENT_FRACTION);
+  const points = samples
+    .filter(s => s.at.getTime() >= recentFrom && s.at.getTime() < nowMs)
+    .map(s => ({ at: s.at.getTime(), percent: s.percent }));
+  points.push({ at: nowMs, percent: current.percent });
+
+  let burnRatePerHour: number | null;
+  let basis: WindowForecast['basis'];
+  if (points.length >= 2 && nowMs - points[0].at >= MIN_SAMPLE_SPAN_MS) {
+    // Usage only rolls off at reset, so a negative trend is noise
+    burnRatePerHour = Math.max(slopePerHour(points), 0);
+    basis = 'history';
+  } else {
+    burnRatePerHour = elapsed > 0 ? current.percent / (elapsed / HOUR_MS) : null;
+    basis = 'window-average';
+  }
+
+  let projectedPercentAtReset: number | null = null;
+  let exhaustsAt: Date | null = null;
+  if (burnRatePerHour !== null) {
+    projectedPercentAtReset = current.percent + burnRatePerHour * (remaining / HOUR_MS);
+    if (current.percent >= 100) {
+      exhaustsAt = now;
+    } else if (burnRatePerHour > 0) {
+      const exhaustMs = nowMs + ((100 - current.percent) / burnRatePerHour) * HOUR_MS;
+      if (exhaustMs <= resetMs) exhaustsAt = new Date(exhaustMs);
+    }
+  }
+
+  const pace = elapsed > 0 ? (current.percent / 100) / (elapsed / length) : null;
+  return { ...base, burnRatePerHour, projectedPercentAtReset, exhaustsAt, pace, paceStatus: paceStatus(pace), basis };
+}
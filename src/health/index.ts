@@ -0,0 +1,93 @@
+// src/health/index.ts — per-account credential and fetch health for checkHealth()
+import { validateToken } from '../tokens/index.js';
+import type { ErrorCode } from '../errors.js';
+import type { AccountHealth, ClaudeCredentials, HealthSeverity, SavedAccount } from '../types.js';
+
+export const DEFAULT_EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+// Failures that persist until the credentials are replaced
+const CREDENTIAL_ERRORS = new Set<ErrorCode>(['authentication_failed', 'token_expired', 'invalid_credentials']);
+
+export interface HealthFacts {
+  lastSuccessAt: Date | null;
+  lastErrorCode: ErrorCode | null;
+  /** Admin key probe result; null when not probed */
+  authenticated: boolean | null;
+}
+
+function reauthenticate(account: SavedAccount): string {
+  return account.accountType === 'admin'
+    ? `Save a new admin API key with saveAdminAccount('${account.name}', key)`
+    : `Re-run authenticate('${account.name}')`;
+}
+
+function transientRemediation(code: ErrorCode): string {
+  if (code === 'rate_limited') return 'Wait for the rate limit to reset';
+  if (code === 'network_error') return 'Check network connectivity and proxy settings';
+  return 'Retry later; if it persists, check for a library update';
+}
+
+function readCredentials(credentialsJson: string): ClaudeCredentials | null {
+  try {
+    return JSON.parse(credentialsJson) as ClaudeCredentials;
+  } catch {
+    return null;
+  }
+}
+
+/** Grades one account from its stored credentials and what is known about its recent fetches */
+export function assessHealth(account: SavedAccount, facts: HealthFacts, now: Date, expiryWarningDays = DEFAULT_EXPIRY_WARNING_DAYS): AccountHealth {
+  const accountType = account.accountType ?? 'oauth';
+  const critical: string[] = [];
+  const warnings: string[] = [];
+  let remediation: string | null = null;
+  // Set when only new credentials will fix the account
+  let replaceCredentials = false;
+  let expiresAt: Date | null = null;
+  let refreshable = false;
+
+  if (accountType === 'oauth') {
+    const oauth = readCredentials(account.credentials)?.claudeAiOauth;
+    refreshable = !!oauth?.refreshToken;
+    expiresAt = validateToken(account.credentials).expiresAt;
+    if (!oauth?.accessToken) {
+      critical.push('Credentials have no access token');
+      replaceCredentials = true;
+    } else if (expiresAt && !refreshable) {
+      const daysLeft = (expiresAt.getTime() - now.getTime()) / DAY_MS;
+      if (daysLeft <= 0) critical.push('Token has expired and has no refresh token');
+      else if (daysLeft <= expiryWarningDays) warnings.push(`Token expires in ${Math.ceil(daysLeft)} days and has no refresh token`);
+      replaceCredentials = daysLeft <= expiryWarningDays;
+    }
+  } else if (facts.authenticated === false) {
+    critical.push('Admin API key no longer authenticates');
+    replaceCredentials = true;
+  }
+
+  const code = facts.lastErrorCode;
+  if (code && CREDENTIAL_ERRORS.has(code)) {
+    // A failed admin probe is already reported above
+    if (facts.authenticated !== false) critical.push(`Last fetch failed: ${code}`);
+    replaceCredentials = true;
+  } else if (code) {
+    warnings.push(`Last fetch failed: ${code}`);
+    remediation = transientRemediation(code);
+  }
+  if (replaceCredentials) remediation = reauthenticate(account);
+
+  const severity: HealthSeverity = critical.length > 0 ? 'critical' : warnings.length > 0 ? 'warning' : 'ok';
+  return {
+    accountName: account.name,
+    accountType,
+    severity,
+    expiresAt,
+    refreshable,
+    lastSuccessAt: facts.lastSuccessAt,
+    lastErrorCode: code,
+    authenticated: facts.authenticated,
+    issues: [...critical, ...warnings],
+    remediation,
+  };
+}
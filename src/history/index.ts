@@ -0,0 +1,95 @@
+// src/history/index.ts — time series of OAuth usage snapshots
+import type { LineLog } from '../storage/line-log.js';
+import type { EncryptionOptions, OAuthAccountUsage, UsageHistory, UsageHistoryQuery, UsageWindowName } from '../types.js';
+
+export const HISTORY_FORMAT = 'claude-usage-core/usage-history';
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60_000;
+const PRUNE_INTERVAL_MS = 60 * 60_000;
+
+export const WINDOW_NAMES: readonly UsageWindowName[] = ['session', 'weekly', 'opus', 'sonnet', 'oauthApps', 'cowork', 'iguanaNecktie'];
+
+interface StoredSample {
+  at: string;
+  account: string;
+  windows: Partial<Record<UsageWindowName, { percent: number; resetsAt: string | null }>>;
+}
+
+function parseSample(line: string): StoredSample | null {
+  try {
+    return JSON.parse(line) as StoredSample;
+  } catch {
+    return null; // torn JSONL write
+  }
+}
+
+export class UsageHistoryRecorder {
+  private lastPrunedAt = 0;
+
+  constructor(
+    private readonly log: LineLog,
+    private readonly retentionDays = DEFAULT_RETENTION_DAYS,
+  ) {}
+
+  /** Appends one sample per snapshot; prunes expired samples at most once an hour */
+  async record(snapshots: { at: Date; usage: OAuthAccountUsage }[]): Promise<void> {
+    const lines = snapshots.map(({ at, usage }) => {
+      const sample: StoredSample = { at: at.toISOString(), account: usage.accountName, windows: {} };
+      for (const name of WINDOW_NAMES) {
+        const window = usage[name];
+        if (window) sample.windows[name] = { percent: window.percent, resetsAt: window.resetsAt?.toISOString() ?? null };
+      }
+      return JSON.stringify(sample);
+    });
+    await this.log.append(lines);
+    if (Date.now() - this.lastPrunedAt >= PRUNE_INTERVAL_MS) await this.prune();
+  }
+
+  async query(account: string, query: UsageHistoryQuery = {}): Promise<UsageHistory> {
+    const history: UsageHistory = query.window ? { [query.window]: [] } : {};
+    for (const line of await this.log.read()) {
+      const sample = parseSample(line);
+      if (sample?.account !== account) continue;
+      const at = new Date(sample.at);
+      if (query.from && at < query.from) continue;
+      if (query.to && at > query.to) continue;
+      for (const name of query.window ? [query.window] : WINDOW_NAMES) {
+        const window = sample.windows[name];
+        if (!window) continue;
+        (history[name] ??= []).push({ at, percent: window.percent, resetsAt: window.resetsAt ? new Date(window.resetsAt) : null });
+      }
+    }
+    for (const series of Object.values(history)) series.sort((a, b) => a.at.getTime() - b.at.getTime());
+    return history;
+  }
+
+  /** Drops samples older than the retention period; returns how many were removed */
+  async prune(): Promise<number> {
+    this.lastPrunedAt = Date.now();
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+    return this.log.rewrite(line => {
+      const sample = parseSample(line);
+      return sample && new Date(sample.at).getTime() >= cutoff ? line : null;
+    });
+  }
+
+  async renameAccount(oldName: string, newName: string): Promise<void> {
+    await this.log.rewrite(line => {
+      const sample = parseSample(line);
+      if (!sample || sample.account === newName) return null;
+      return sample.account === oldName ? JSON.stringify({ ...sample, account: newName }) : line;
+    });
+  }
+
+  async removeAccount(name: string): Promise<void> {
+    await this.log.rewrite(line => {
+      const sample = parseSample(line);
+      return !sample || sample.account === name ? null : line;
+    });
+  }
+
+  async rekey(encryption: EncryptionOptions): Promise<void> {
+    await this.log.rekey(encryption);
+  }
+}
@@ -0,0 +1,169 @@
+// src/http/index.ts — shared request layer: transport, base URLs, retries with backoff and a per-call budget
+import { setTimeout as sleep } from 'node:timers/promises';
+import { ApiError, AuthenticationError, NetworkError, RateLimitError, type ClaudeUsageError } from '../errors.js';
+import type { ApiBaseUrls, FetchFunction, ResponseValidation, RetryPolicy } from '../types.js';
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  budget: 10,
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+// The server did not act on the request, so even a token refresh can be repeated
+const UNPROCESSED_STATUSES = new Set([429, 503, 529]);
+// The connection was never established, so the request was not sent
+const UNSENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+const PROXY_ENV_VARS = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'];
+
+let proxyFetch: Promise<FetchFunction> | undefined;
+
+function env(...names: string[]): string | undefined {
+  for (const name of names) if (process.env[name]) return process.env[name];
+  return undefined;
+}
+
+/** Whether a NO_PROXY list (comma or space separated; `*`, `.suffix` and `host:port` entries) covers a host */
+function bypassesProxy(hostname: string, port: string, noProxy: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  return noProxy.split(/[\s,]+/).some(raw => {
+    const entry = raw.toLowerCase();
+    if (!entry) return false;
+    if (entry === '*') return true;
+    // A bare IPv6 address has several colons and no port; bracket it to give one
+    const parsed = /^\[(.+)\](?::(\d+))?$/.exec(entry) ?? (entry.split(':').length === 2 ? /^(.+):(\d+)$/.exec(entry) : null);
+    const [name, entryPort] = parsed ? [parsed[1], parsed[2]] : [entry, undefined];
+    if (entryPort && entryPort !== port) return false;
+    const suffix = name.replace(/^\*?\./, '');
+    return host === suffix || host.endsWith(`.${suffix}`);
+  });
+}
+
+/**
+ * The proxy for a request per HTTPS_PROXY (https only) or HTTP_PROXY and their lowercase forms,
+ * or null when none is set or NO_PROXY covers the host
+ */
+export function proxyFor(url: string): string | null {
+  const { protocol, hostname, port } = new URL(url);
+  const https = protocol === 'https:';
+  const proxy = https ? env('HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy') : env('HTTP_PROXY', 'http_proxy');
+  if (!proxy) return null;
+  return bypassesProxy(hostname, port || (https ? '443' : '80'), env('NO_PROXY', 'no_proxy') ?? '') ? null : proxy;
+}
+
+/**
+ * The caller's transport, else the global `fetch` — or, when a proxy variable is set, undici's
+ * behind a ProxyAgent for each request proxyFor() routes. Node's built-in fetch ignores them.
+ */
+export async function resolveFetch(custom?: FetchFunction): Promise<FetchFunction> {
+  if (custom) return custom;
+  if (!PROXY_ENV_VARS.some(name => process.env[name])) return globalThis.fetch;
+  // ProxyAgent rather than EnvHttpProxyAgent, which is experimental and warns on first use
+  proxyFetch ??= import('undici').then(({ fetch, ProxyAgent }) => {
+    const agents = new Map<string, InstanceType<typeof ProxyAgent>>();
+    return (url, init) => {
+      const proxy = proxyFor(url);
+      if (!proxy) return globalThis.fetch(url, init);
+      let dispatcher = agents.get(proxy);
+      if (!dispatcher) agents.set(proxy, dispatcher = new ProxyAgent(proxy));
+      return fetch(url, { ...init, dispatcher } as Parameters<typeof fetch>[1]) as unknown as Promise<Response>;
+    };
+  });
+  return proxyFetch;
+}
+
+/** Moves a default endpoint URL onto a configured base, keeping its path and query */
+export function withBaseUrl(url: string, base: string | undefined): string {
+  if (!base) return url;
+  const { pathname, search } = new URL(url);
+  return `${base.replace(/\/+$/, '')}${pathname}${search}`;
+}
+
+/** Retries left for one top-level call (e.g. a getAllAccountsUsage()), shared by all its requests */
+export class RetryBudget {
+  constructor(private remaining: number) {}
+
+  take(): boolean {
+    if (this.remaining <= 0) return false;
+    this.remaining--;
+    return true;
+  }
+}
+
+export interface RequestOptions {
+  validation?: ResponseValidation;
+  /** `false` sends each request once */
+  retry?: RetryPolicy | false;
+  budget?: RetryBudget;
+  fetch?: FetchFunction;
+  baseUrls?: ApiBaseUrls;
+  /** Aborts the request in flight and any wait before a retry */
+  signal?: AbortSignal;
+}
+
+/** Seconds or an HTTP date, in milliseconds from now */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (header.trim() !== '' && Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** The typed error for a failed response: AuthenticationError (401), RateLimitError (429) or ApiError */
+export function errorForResponse(response: Response, message: string): ClaudeUsageError {
+  if (response.status === 401) return new AuthenticationError(401);
+  if (response.status === 429) return new RateLimitError(message, parseRetryAfter(response.headers?.get('retry-after') ?? null));
+  return new ApiError(response.status, message);
+}
+
+function backoff(attempt: number, policy: Required<RetryPolicy>): number {
+  return Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+}
+
+function isSafeNetworkError(err: unknown, idempotent: boolean): boolean {
+  if ((err as Error).name === 'AbortError') return false;
+  if (idempotent) return true;
+  const code = ((err as { cause?: { code?: string } }).cause ?? (err as { code?: string })).code;
+  return code !== undefined && UNSENT_ERROR_CODES.has(code);
+}
+
+/**
+ * `fetch` with retries. GET requests are retried on network errors and transient statuses; other
+ * methods only when the request provably was not processed. A `Retry-After` beyond `maxDelayMs`
+ * ends retrying and returns the response as-is. Transport failures surface as NetworkError;
+ * aborting `options.signal` rejects with its AbortError, also while waiting to retry.
+ */
+export async function request(url: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<Response> {
+  const policy = options.retry === false
+    ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+    : { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const idempotent = (init.method ?? 'GET').toUpperCase() === 'GET';
+  const send = await resolveFetch(options.fetch);
+  const { signal } = options;
+  const sendInit = signal && !init.signal ? { ...init, signal } : init;
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    const canRetry = () => attempt < policy.maxAttempts && (options.budget?.take() ?? true);
+    let response: Response;
+    try {
+      response = await send(url, sendInit);
+    } catch (err) {
+      if (!isSafeNetworkError(err, idempotent) || !canRetry()) {
+        throw (err as Error).name === 'AbortError' ? err : new NetworkError(url, err);
+      }
+      await sleep(backoff(attempt, policy), undefined, { signal });
+      continue;
+    }
+
+    const retryable = idempotent ? RETRYABLE_STATUSES : UNPROCESSED_STATUSES;
+    if (response.ok || !retryable.has(response.status)) return response;
+    const retryAfter = parseRetryAfter(response.headers?.get('retry-after') ?? null);
+    if (retryAfter !== null && retryAfter > policy.maxDelayMs) return response;
+    if (!canRetry()) return response;
+    await response.body?.cancel().catch(() => {});
+    await sleep(retryAfter ?? backoff(attempt, policy), undefined, { signal });
+  }
+}
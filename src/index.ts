@@ -1,8 +1,13 @@
 // src/index.ts
 export { ClaudeUsageClient } from './client.js';
 export { authorize } from './auth/index.js';
+export { AccountStore, MemoryAccountStorage } from './storage/index.js';
+export { AlertEngine, CallbackNotifier, FileNotifier, CommandNotifier, WebhookNotifier } from './alerts/index.js';
+export type { AlertNotifier, CommandNotifierOptions, WebhookNotifierOptions } from './alerts/index.js';
+export type { AccountStorage, AccountStoreOptions } from './storage/index.js';
 export type { AuthorizeOptions } from './auth/index.js';
-export type { AccountUsage, OAuthAccountUsage, AdminAccountUsage, ActorUsage, ModelUsageBreakdown, Account, AccountType, ClaudeUsageClientOptions, UsageOptions, UsageWindow, ExtraUsage } from './types.js';
-export { ClaudeUsageError, AccountNotFoundError, StorageError, AuthenticationError } from './errors.js';
+export type { AccountUsage, OAuthAccountUsage, AdminAccountUsage, ActorUsage, ModelUsageBreakdown, Account, AccountType, AccountProfile, PlanTier, SavedProfile, AccountMetadataUpdate, AccountFilter, ClaudeUsageClientOptions, EncryptionOptions, KdfOptions, LockOptions, UsageOptions, UsageWindow, UsageWindowDetail, UsageWindowKind, ExtraUsage, AccountsData, SavedAccount, ExportOptions, ImportOptions, ImportResult, ConflictStrategy, BackupInfo, RecoverOptions, RecoveryResult, AuditEntry, AuditOperation, AuditQuery, UsageCachePolicy, UsageHistory, UsageHistoryOptions, UsageHistoryQuery, UsageSample, UsageWindowName, UsageForecast, WindowForecast, PaceStatus, AlertMetric, AlertRule, AlertEvent, AlertOptions, WatchUsageOptions, UsageChangeEvent, ResponseValidation, RetryPolicy, FetchFunction, ApiBaseUrls, UsageErrorInfo, AccountHealth, HealthSeverity, HealthCheckOptions, SystemSyncResult, SystemSyncStatus, WatchSystemCredentialsOptions, ClaudeCodeCredentialsOptions } from './types.js';
+export type { ErrorCode } from './errors.js';
+export { ClaudeUsageError, AccountNotFoundError, StorageError, StorageKeyError, StorageCorruptedError, ResponseSchemaError, AuthenticationError, TokenExpiredError, InvalidCredentialsError, ApiError, RateLimitError, NetworkError, toErrorInfo } from './errors.js';
 export { fetchCostReport, transformCostReport } from './admin/index.js';
 export { formatCredits, formatExtraUsageDisplay, isExtraUsageVisible, getExtraUtilizationPercent } from './extra-usage.js';
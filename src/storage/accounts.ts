@@ -0,0 +1,116 @@
+// src/storage/accounts.ts — backend-independent mutations on AccountsData
+import { StorageError } from '../errors.js';
+import { CURRENT_SCHEMA_VERSION } from './migrations.js';
+import type { AccountMetadataUpdate, AccountsData, AccountType, ConflictStrategy, ImportResult, SavedAccount, SavedProfile } from '../types.js';
+
+export function emptyAccountsData(): AccountsData {
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, accounts: [], activeAccountName: null };
+}
+
+export function upsertAccount(
+  data: AccountsData,
+  name: string,
+  credentials: string,
+  email?: string,
+  accountType: AccountType = 'oauth',
+  profile?: SavedProfile,
+): void {
+  const existing = data.accounts.findIndex(a => a.name === name);
+  const previous = existing >= 0 ? data.accounts[existing] : undefined;
+  const savedProfile = profile ?? previous?.profile;
+  const account: SavedAccount = {
+    name,
+    accountType,
+    credentials,
+    savedAt: new Date().toISOString(),
+    // Metadata survives credential updates (e.g. token refresh)
+    tags: previous?.tags ?? [],
+    enabled: previous?.enabled ?? true,
+    ...(previous?.note !== undefined ? { note: previous.note } : {}),
+    ...(previous?.color !== undefined ? { color: previous.color } : {}),
+    ...(savedProfile !== undefined ? { profile: savedProfile } : {}),
+  };
+  if (email) {
+    account.email = email;
+  } else if (existing >= 0 && data.accounts[existing].email) {
+    // Preserve existing email on credential-only updates (e.g. token refresh)
+    account.email = data.accounts[existing].email;
+  }
+  if (existing >= 0) {
+    data.accounts[existing] = account;
+  } else {
+    data.accounts.push(account);
+  }
+}
+
+export function removeAccount(data: AccountsData, name: string): boolean {
+  const index = data.accounts.findIndex(a => a.name === name);
+  if (index < 0) return false;
+  data.accounts.splice(index, 1);
+  if (data.activeAccountName === name) data.activeAccountName = null;
+  return true;
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(t => t.trim()).filter(t => t.length > 0))];
+}
+
+export function updateMetadataIn(data: AccountsData, name: string, update: AccountMetadataUpdate): boolean {
+  const account = data.accounts.find(a => a.name === name);
+  if (!account) return false;
+  if (update.tags !== undefined) account.tags = normalizeTags(update.tags);
+  if (update.enabled !== undefined) account.enabled = update.enabled;
+  if (update.note === null) delete account.note;
+  else if (update.note !== undefined) account.note = update.note;
+  if (update.color === null) delete account.color;
+  else if (update.color !== undefined) account.color = update.color;
+  return true;
+}
+
+export function setProfileIn(data: AccountsData, name: string, profile: SavedProfile): boolean {
+  const account = data.accounts.find(a => a.name === name);
+  if (!account) return false;
+  account.profile = structuredClone(profile);
+  return true;
+}
+
+export function renameAccountIn(data: AccountsData, oldName: string, newName: string): boolean {
+  const account = data.accounts.find(a => a.name === oldName);
+  if (!account) return false;
+  if (data.accounts.some(a => a.name === newName)) {
+    throw new StorageError(`Account "${newName}" already exists`);
+  }
+  account.name = newName;
+  if (data.activeAccountName === oldName) data.activeAccountName = newName;
+  return true;
+}
+
+function nextFreeName(data: AccountsData, name: string): string {
+  for (let n = 2; ; n++) {
+    const candidate = `${name} (${n})`;
+    if (!data.accounts.some(a => a.name === candidate)) return candidate;
+  }
+}
+
+/** Adds complete account records (keeping their savedAt), resolving name clashes per `onConflict`. */
+export function mergeAccounts(data: AccountsData, incoming: SavedAccount[], onConflict: ConflictStrategy): ImportResult {
+  const result: ImportResult = { imported: [], skipped: [], renamed: [] };
+  for (const account of incoming) {
+    const existing = data.accounts.findIndex(a => a.name === account.name);
+    if (existing < 0) {
+      data.accounts.push(structuredClone(account));
+      result.imported.push(account.name);
+    } else if (onConflict === 'overwrite') {
+      data.accounts[existing] = structuredClone(account);
+      result.imported.push(account.name);
+    } else if (onConflict === 'rename') {
+      const name = nextFreeName(data, account.name);
+      data.accounts.push({ ...structuredClone(account), name });
+      result.imported.push(name);
+      result.renamed.push({ from: account.name, to: name });
+    } else {
+      result.skipped.push(account.name);
+    }
+  }
+  return result;
+}
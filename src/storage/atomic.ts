@@ -0,0 +1,36 @@
+// src/storage/atomic.ts — whole-file replacement shared by every file this library writes
+import { mkdir, open, rename, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { randomBytes } from 'node:crypto';
+
+export interface AtomicWriteOptions {
+  /** Mode for the parent directory if it has to be created (default: umask) */
+  dirMode?: number;
+}
+
+/** A unique sibling of `filePath`; being in the same directory keeps the final rename atomic */
+export function tempPath(filePath: string): string {
+  return `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+}
+
+/**
+ * Writes `content` to a temp file (mode 0600), syncs it, then renames it over `filePath`, so readers
+ * never see a partial file and a crash cannot leave an empty one. The temp file is removed on failure.
+ */
+export async function writeFileAtomic(filePath: string, content: string, options: AtomicWriteOptions = {}): Promise<void> {
+  const tmpPath = tempPath(filePath);
+  try {
+    await mkdir(dirname(filePath), { recursive: true, mode: options.dirMode });
+    const handle = await open(tmpPath, 'w', 0o600);
+    try {
+      await handle.writeFile(content, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(tmpPath, filePath);
+  } catch (err) {
+    await unlink(tmpPath).catch(() => {});
+    throw err;
+  }
+}
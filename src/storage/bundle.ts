@@ -0,0 +1,55 @@
+// src/storage/bundle.ts — passphrase-encrypted account bundles for moving accounts between machines
+import { encrypt, decrypt } from './crypto.js';
+import { migrateAccountsData } from './migrations.js';
+import { StorageError } from '../errors.js';
+import type { KdfOptions, SavedAccount } from '../types.js';
+
+const BUNDLE_FORMAT = 'claude-usage-core/accounts-bundle';
+const BUNDLE_VERSION = 1;
+
+interface BundlePayload {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  schemaVersion: number;
+  accounts: SavedAccount[];
+}
+
+/**
+ * Encrypts accounts into a portable bundle. Unlike the accounts file, the key depends
+ * only on the passphrase, so any machine can open it.
+ */
+export async function createBundle(
+  accounts: SavedAccount[],
+  schemaVersion: number,
+  passphrase: string,
+  kdf?: KdfOptions,
+): Promise<string> {
+  const payload: BundlePayload = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion,
+    accounts,
+  };
+  return encrypt(JSON.stringify(payload), { mode: 'passphrase', passphrase, kdf });
+}
+
+/** Decrypts a bundle and upgrades its accounts to the current schema. */
+export async function openBundle(bundle: string, passphrase: string): Promise<SavedAccount[]> {
+  let payload: BundlePayload;
+  try {
+    payload = JSON.parse(await decrypt(bundle.trim(), { mode: 'passphrase', passphrase })) as BundlePayload;
+  } catch (err) {
+    throw new StorageError(`Failed to open account bundle (wrong passphrase or corrupted bundle): ${(err as Error).message}`);
+  }
+  if (payload.format !== BUNDLE_FORMAT) throw new StorageError('Not an account bundle');
+  if (payload.version !== BUNDLE_VERSION) throw new StorageError(`Unsupported account bundle version ${payload.version}`);
+  const data = migrateAccountsData({ schemaVersion: payload.schemaVersion, accounts: payload.accounts, activeAccountName: null });
+  for (const account of data.accounts) {
+    if (typeof account.name !== 'string' || !account.name || typeof account.credentials !== 'string' || typeof account.savedAt !== 'string') {
+      throw new StorageError('Account bundle contains a malformed account');
+    }
+  }
+  return data.accounts;
+}
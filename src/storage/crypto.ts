@@ -1,43 +1,190 @@
 // src/storage/crypto.ts
-import { createCipheriv, createDecipheriv, pbkdf2, randomBytes, createHash } from 'node:crypto';
+import { createCipheriv, createDecipheriv, createHmac, pbkdf2, scrypt, randomBytes, createHash, timingSafeEqual, type ScryptOptions } from 'node:crypto';
 import { promisify } from 'node:util';
 import machineId from 'node-machine-id';
+import { StorageKeyError, StorageCorruptedError } from '../errors.js';
+import type { EncryptionOptions } from '../types.js';
 const { machineIdSync } = machineId;
 
 const pbkdf2Async = promisify(pbkdf2);
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number, options: ScryptOptions) => Promise<Buffer>;
 
 const APP_NAME = 'claude-usage-core';
 const ITERATIONS = 100_000;
 const KEY_LEN = 32;
+const SALT_LEN = 16;
 const ALGORITHM = 'aes-256-gcm';
 
-async function deriveKey(): Promise<Buffer> {
-  const machineId = machineIdSync(true); // true = hash it
-  const salt = createHash('sha256').update(machineId).digest();
-  return pbkdf2Async(machineId + APP_NAME, salt, ITERATIONS, KEY_LEN, 'sha256');
+// Passphrase KDF defaults (scrypt N=2^15 ≈ 32 MiB, PBKDF2 per OWASP 2023 guidance)
+const DEFAULT_SCRYPT = { cost: 2 ** 15, blockSize: 8, parallelization: 1 };
+const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+// Upper bounds on recorded KDF parameters: headers of imported bundles come from other people,
+// and unbounded values would let one hang the process or exhaust memory before the key check fails
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024; // 128 · N · r bytes
+const MAX_SCRYPT_PARALLELIZATION = 16;
+
+// Envelope: base64(MAGIC | version u8 | header length u16be | header JSON | iv | authTag | ciphertext)
+// The header bytes are bound to the ciphertext as GCM additional authenticated data.
+const MAGIC = Buffer.from('CUCE', 'ascii');
+export const FORMAT_VERSION = 1;
+const PREFIX_LEN = MAGIC.length + 1 + 2;
+
+export const MACHINE_ID_ENCRYPTION: EncryptionOptions = { mode: 'machine-id' };
+
+export type KdfDescriptor =
+  | { name: 'pbkdf2'; source: 'machine-id' | 'passphrase'; iterations: number; digest: 'sha256' | 'sha512' }
+  | { name: 'scrypt'; source: 'passphrase'; N: number; r: number; p: number }
+  | { name: 'none'; source: 'key-provider' };
+
+export interface EnvelopeHeader {
+  cipher: typeof ALGORITHM;
+  kdf: KdfDescriptor;
+  salt: string; // base64, random per file
+  keyCheck?: string; // base64 HMAC of a constant — tells a wrong key apart from a corrupted payload
 }
 
-export async function encrypt(plaintext: string): Promise<string> {
-  const key = await deriveKey();
-  const iv = randomBytes(12); // 96-bit IV for GCM
-  const cipher = createCipheriv(ALGORITHM, key, iv);
-  const encrypted = Buffer.concat([
-    cipher.update(plaintext, 'utf8'),
-    cipher.final(),
-  ]);
-  const authTag = cipher.getAuthTag();
-  // Format: base64(iv + authTag + ciphertext)
-  const combined = Buffer.concat([iv, authTag, encrypted]);
-  return combined.toString('base64');
+function kdfFor(encryption: EncryptionOptions): KdfDescriptor {
+  switch (encryption.mode) {
+    case 'machine-id':
+      return { name: 'pbkdf2', source: 'machine-id', iterations: ITERATIONS, digest: 'sha256' };
+    case 'passphrase': {
+      const kdf = encryption.kdf ?? { algorithm: 'scrypt' };
+      if (kdf.algorithm === 'pbkdf2') {
+        return { name: 'pbkdf2', source: 'passphrase', iterations: kdf.iterations ?? DEFAULT_PBKDF2_ITERATIONS, digest: kdf.digest ?? 'sha256' };
+      }
+      return {
+        name: 'scrypt',
+        source: 'passphrase',
+        N: kdf.cost ?? DEFAULT_SCRYPT.cost,
+        r: kdf.blockSize ?? DEFAULT_SCRYPT.blockSize,
+        p: kdf.parallelization ?? DEFAULT_SCRYPT.parallelization,
+      };
+    }
+    case 'key-provider':
+      return { name: 'none', source: 'key-provider' };
+  }
+}
+
+const isInt = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+/** Why the KDF parameters are unusable, or null when they are within bounds */
+function kdfProblem(kdf: KdfDescriptor): string | null {
+  // Header values are untrusted: compare as plain strings rather than the declared literals
+  const source: string = kdf.source;
+  switch (kdf.name) {
+    case 'none':
+      return source === 'key-provider' ? null : `invalid key source ${source}`;
+    case 'pbkdf2': {
+      const digest: string = kdf.digest;
+      if (source !== 'machine-id' && source !== 'passphrase') return `invalid key source ${source}`;
+      if (digest !== 'sha256' && digest !== 'sha512') return `unsupported PBKDF2 digest ${digest}`;
+      return isInt(kdf.iterations, 1, MAX_PBKDF2_ITERATIONS) ? null : `PBKDF2 iterations out of range (1–${MAX_PBKDF2_ITERATIONS})`;
+    }
+    case 'scrypt':
+      if (source !== 'passphrase') return `invalid key source ${source}`;
+      if (!isInt(kdf.N, 2, 2 ** 30) || (kdf.N & (kdf.N - 1)) !== 0) return 'scrypt cost must be a power of two';
+      if (!isInt(kdf.r, 1, 1024) || !isInt(kdf.p, 1, MAX_SCRYPT_PARALLELIZATION)) return 'scrypt block size or parallelization out of range';
+      return 128 * kdf.N * kdf.r <= MAX_SCRYPT_MEMORY ? null : `scrypt parameters need more than ${MAX_SCRYPT_MEMORY / 2 ** 20} MiB`;
+  }
+}
+
+function computeKeyCheck(key: Buffer): string {
+  return createHmac('sha256', key).update(`${APP_NAME}:key-check`).digest().subarray(0, 16).toString('base64');
+}
+
+function machineSecret(): string {
+  return machineIdSync(true) + APP_NAME; // true = hash it
+}
+
+function passphraseSecret(encryption: EncryptionOptions): string {
+  if (encryption.mode !== 'passphrase') throw new StorageKeyError('Passphrase required');
+  if (!encryption.passphrase) throw new StorageKeyError('Passphrase must not be empty');
+  return encryption.passphrase;
+}
+
+async function resolveProviderKey(encryption: EncryptionOptions): Promise<Buffer> {
+  if (encryption.mode !== 'key-provider') throw new StorageKeyError('Key provider required');
+  const key = Buffer.from(await encryption.getKey());
+  if (key.length !== KEY_LEN) {
+    throw new StorageKeyError(`Key provider must return a ${KEY_LEN}-byte key (got ${key.length})`);
+  }
+  return key;
 }
 
-export async function decrypt(ciphertext: string): Promise<string> {
-  const key = await deriveKey();
+/** Derives the AES key for a file using the KDF parameters recorded in its header. */
+async function deriveKey(encryption: EncryptionOptions, kdf: KdfDescriptor, salt: Buffer): Promise<Buffer> {
+  if (kdf.source !== encryption.mode) {
+    throw new StorageKeyError(`Data was encrypted with a ${kdf.source} key, but ${encryption.mode} encryption is configured`);
+  }
+  switch (kdf.name) {
+    case 'none':
+      return resolveProviderKey(encryption);
+    case 'pbkdf2': {
+      const secret = kdf.source === 'machine-id' ? machineSecret() : passphraseSecret(encryption);
+      return pbkdf2Async(secret, salt, kdf.iterations, KEY_LEN, kdf.digest);
+    }
+    case 'scrypt':
+      return scryptAsync(passphraseSecret(encryption), salt, KEY_LEN, {
+        N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r * kdf.p,
+      });
+  }
+}
+
+/**
+ * Key derivation for the pre-envelope format, which had no salt or parameters on disk. Only
+ * machine-ID files were ever released in that format.
+ */
+async function deriveLegacyKey(encryption: EncryptionOptions): Promise<Buffer> {
+  if (encryption.mode !== 'machine-id') {
+    throw new StorageKeyError(`Data predates the envelope format and uses the machine-id key, but ${encryption.mode} encryption is configured`);
+  }
+  const id = machineIdSync(true);
+  const salt = createHash('sha256').update(id).digest();
+  return pbkdf2Async(id + APP_NAME, salt, ITERATIONS, KEY_LEN, 'sha256');
+}
+
+/** Whether the payload uses the versioned envelope (as opposed to the legacy bare format). */
+export function isEnvelope(ciphertext: string): boolean {
+  const combined = Buffer.from(ciphertext, 'base64');
+  return combined.length >= PREFIX_LEN && combined.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+export function readEnvelopeHeader(ciphertext: string): EnvelopeHeader {
   const combined = Buffer.from(ciphertext, 'base64');
-  const iv = combined.subarray(0, 12);
-  const authTag = combined.subarray(12, 28);
-  const encrypted = combined.subarray(28);
+  if (!isEnvelope(ciphertext)) throw new StorageCorruptedError('Not an encrypted envelope');
+  const version = combined.readUInt8(MAGIC.length);
+  if (version !== FORMAT_VERSION) {
+    throw new StorageCorruptedError(`Unsupported encryption format version ${version}`);
+  }
+  const headerLen = combined.readUInt16BE(MAGIC.length + 1);
+  if (combined.length < PREFIX_LEN + headerLen) throw new StorageCorruptedError('Truncated envelope header');
+  let header: EnvelopeHeader;
+  try {
+    header = JSON.parse(combined.subarray(PREFIX_LEN, PREFIX_LEN + headerLen).toString('utf8')) as EnvelopeHeader;
+  } catch {
+    throw new StorageCorruptedError('Unreadable envelope header');
+  }
+  if (header.cipher !== ALGORITHM) throw new StorageCorruptedError(`Unsupported cipher: ${header.cipher}`);
+  if (!['pbkdf2', 'scrypt', 'none'].includes(header.kdf?.name)) {
+    throw new StorageCorruptedError(`Unsupported key derivation: ${header.kdf?.name}`);
+  }
+  const problem = kdfProblem(header.kdf);
+  if (problem) throw new StorageCorruptedError(`Invalid key derivation parameters: ${problem}`);
+  if (typeof header.salt !== 'string' || (header.keyCheck !== undefined && typeof header.keyCheck !== 'string')) {
+    throw new StorageCorruptedError('Invalid envelope header');
+  }
+  return header;
+}
+
+function gcmDecrypt(key: Buffer, payload: Buffer, aad?: Buffer): string {
+  const iv = payload.subarray(0, 12);
+  const authTag = payload.subarray(12, 28);
+  const encrypted = payload.subarray(28);
   const decipher = createDecipheriv(ALGORITHM, key, iv);
+  if (aad) decipher.setAAD(aad);
   decipher.setAuthTag(authTag);
   const decrypted = Buffer.concat([
     decipher.update(encrypted),
@@ -45,3 +192,63 @@ export async function decrypt(ciphertext: string): Promise<string> {
   ]);
   return decrypted.toString('utf8');
 }
+
+export async function encrypt(plaintext: string, encryption: EncryptionOptions = MACHINE_ID_ENCRYPTION): Promise<string> {
+  const salt = randomBytes(SALT_LEN);
+  const kdf = kdfFor(encryption);
+  // Refuse to write what readEnvelopeHeader() would reject
+  const problem = kdfProblem(kdf);
+  if (problem) throw new RangeError(`Invalid encryption.kdf: ${problem}`);
+  const key = await deriveKey(encryption, kdf, salt);
+  const header: EnvelopeHeader = { cipher: ALGORITHM, kdf, salt: salt.toString('base64'), keyCheck: computeKeyCheck(key) };
+
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+  const prefix = Buffer.alloc(PREFIX_LEN);
+  MAGIC.copy(prefix, 0);
+  prefix.writeUInt8(FORMAT_VERSION, MAGIC.length);
+  prefix.writeUInt16BE(headerBytes.length, MAGIC.length + 1);
+  const aad = Buffer.concat([prefix, headerBytes]);
+
+  const iv = randomBytes(12); // 96-bit IV for GCM
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(aad);
+  const encrypted = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+  const authTag = cipher.getAuthTag();
+  return Buffer.concat([aad, iv, authTag, encrypted]).toString('base64');
+}
+
+/**
+ * Decrypts both the versioned envelope and the legacy base64(iv + authTag + ciphertext) format.
+ * Throws StorageKeyError when the configured key does not match and StorageCorruptedError
+ * when the payload is damaged. Legacy payloads carry no key check, so a failure there is
+ * reported as corruption.
+ */
+export async function decrypt(ciphertext: string, encryption: EncryptionOptions = MACHINE_ID_ENCRYPTION): Promise<string> {
+  const combined = Buffer.from(ciphertext, 'base64');
+  if (!isEnvelope(ciphertext)) {
+    const key = await deriveLegacyKey(encryption);
+    try {
+      return gcmDecrypt(key, combined);
+    } catch (err) {
+      throw new StorageCorruptedError(`Decryption failed — data is corrupted or the key is wrong (${(err as Error).message})`);
+    }
+  }
+  const header = readEnvelopeHeader(ciphertext);
+  const headerEnd = PREFIX_LEN + combined.readUInt16BE(MAGIC.length + 1);
+  const key = await deriveKey(encryption, header.kdf, Buffer.from(header.salt, 'base64'));
+  if (header.keyCheck !== undefined) {
+    const expected = Buffer.from(computeKeyCheck(key), 'base64');
+    const actual = Buffer.from(header.keyCheck, 'base64');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new StorageKeyError('Decryption key does not match this data');
+    }
+  }
+  try {
+    return gcmDecrypt(key, combined.subarray(headerEnd), combined.subarray(0, headerEnd));
+  } catch (err) {
+    throw new StorageCorruptedError(`Integrity check failed — data is corrupted (${(err as Error).message})`);
+  }
+}
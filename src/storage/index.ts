@@ -1,37 +1,116 @@
 // src/storage/index.ts
-import { readFile, writeFile, mkdir } from 'node:fs/promises';
-import { dirname } from 'node:path';
+import { readFile, readdir, rename, unlink, mkdir, copyFile, stat } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
 import { encrypt, decrypt } from './crypto.js';
-import { StorageError } from '../errors.js';
-import type { AccountsData, AccountType, SavedAccount } from '../types.js';
+import { withFileLock } from './lock.js';
+import { writeFileAtomic } from './atomic.js';
+import { emptyAccountsData, upsertAccount, removeAccount, renameAccountIn, mergeAccounts, updateMetadataIn, setProfileIn } from './accounts.js';
+import { migrateAccountsData } from './migrations.js';
+import { StorageError, StorageCorruptedError } from '../errors.js';
+import type { AccountStorage } from './types.js';
+import type { AccountMetadataUpdate, AccountsData, AccountType, BackupInfo, ConflictStrategy, EncryptionOptions, ImportResult, LockOptions, RecoverOptions, RecoveryResult, SavedAccount, SavedProfile } from '../types.js';
 
-const EMPTY: AccountsData = { accounts: [], activeAccountName: null };
+export type { AccountStorage } from './types.js';
+export { MemoryAccountStorage } from './memory.js';
 
-export class AccountStore {
-  constructor(private readonly filePath: string) {}
+const DEFAULT_BACKUPS = 3;
+
+export interface AccountStoreOptions {
+  /** How the file key is obtained (default: machine ID) */
+  encryption?: EncryptionOptions;
+  /** Tuning for the cross-process write lock */
+  lock?: LockOptions;
+  /** Number of rotating backups kept next to the file (default 3, 0 disables) */
+  backups?: number;
+}
+
+/** Default storage backend: a single AES-256-GCM encrypted file. */
+export class AccountStore implements AccountStorage {
+  private encryption?: EncryptionOptions;
+  private readonly lockOptions: LockOptions;
+  private readonly backupCount: number;
+
+  constructor(
+    private readonly filePath: string,
+    options: AccountStoreOptions = {},
+  ) {
+    this.encryption = options.encryption;
+    this.lockOptions = options.lock ?? {};
+    this.backupCount = options.backups ?? DEFAULT_BACKUPS;
+  }
+
+  private backupPath(index: number): string {
+    return `${this.filePath}.bak.${index}`;
+  }
+
+  private async decode(raw: string, encryption: EncryptionOptions | undefined): Promise<AccountsData> {
+    const decrypted = await decrypt(raw.trim(), encryption);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(decrypted);
+    } catch (err) {
+      throw new StorageCorruptedError(`Decrypted accounts are not valid JSON: ${(err as Error).message}`);
+    }
+    return migrateAccountsData(parsed);
+  }
 
   async load(): Promise<AccountsData> {
     try {
       const raw = await readFile(this.filePath, 'utf8');
-      const decrypted = await decrypt(raw.trim());
-      return JSON.parse(decrypted) as AccountsData;
+      return await this.decode(raw, this.encryption);
     } catch (err) {
       // File not found = fresh state
       if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
-        return structuredClone(EMPTY);
+        return emptyAccountsData();
       }
+      if (err instanceof StorageError) throw err;
       throw new StorageError(`Failed to load accounts: ${(err as Error).message}`);
     }
   }
 
-  private async save(data: AccountsData): Promise<void> {
+  /** Shifts `.bak.N` files up by one and copies the current file into `.bak.1`. */
+  private async rotateBackups(): Promise<void> {
+    if (this.backupCount <= 0) return;
+    const ignoreMissing = (err: NodeJS.ErrnoException) => { if (err.code !== 'ENOENT') throw err; };
+    for (let i = this.backupCount - 1; i >= 1; i--) {
+      await rename(this.backupPath(i), this.backupPath(i + 1)).catch(ignoreMissing);
+    }
+    await copyFile(this.filePath, this.backupPath(1)).catch(ignoreMissing);
+  }
+
+  /**
+   * Writes to a temp file in the same directory, then renames over the target so readers never see a partial file.
+   * The previous file is rotated into the backups first unless `backup` is false.
+   */
+  private async save(data: AccountsData, backup = true): Promise<void> {
+    try {
+      const encrypted = await encrypt(JSON.stringify(data), this.encryption);
+      if (backup) await this.rotateBackups();
+      await writeFileAtomic(this.filePath, encrypted);
+    } catch (err) {
+      throw new StorageError(`Failed to save accounts: ${(err as Error).message}`);
+    }
+  }
+
+  /** Serializes a load-modify-save cycle against other processes sharing the file. */
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
     try {
       await mkdir(dirname(this.filePath), { recursive: true });
-      const encrypted = await encrypt(JSON.stringify(data));
-      await writeFile(this.filePath, encrypted, 'utf8');
     } catch (err) {
       throw new StorageError(`Failed to save accounts: ${(err as Error).message}`);
     }
+    return withFileLock(`${this.filePath}.lock`, fn, this.lockOptions);
+  }
+
+  /** Runs a locked load-modify-save cycle. */
+  private async mutate<T>(fn: (data: AccountsData) => T): Promise<T> {
+    return this.withLock(async () => {
+      const data = await this.load();
+      const result = fn(data);
+      // Nothing to persist when the mutation reports a miss
+      if (result !== false) await this.save(data);
+      return result;
+    });
   }
 
   async saveAccount(
@@ -39,50 +118,128 @@ export class AccountStore {
     credentials: string,
     email?: string,
     accountType: AccountType = 'oauth',
+    profile?: SavedProfile,
   ): Promise<void> {
-    const data = await this.load();
-    const existing = data.accounts.findIndex(a => a.name === name);
-    const account: SavedAccount = { name, accountType, credentials, savedAt: new Date().toISOString() };
-    if (email) {
-      account.email = email;
-    } else if (existing >= 0 && data.accounts[existing].email) {
-      // Preserve existing email on credential-only updates (e.g. token refresh)
-      account.email = data.accounts[existing].email;
-    }
-    if (existing >= 0) {
-      data.accounts[existing] = account;
-    } else {
-      data.accounts.push(account);
-    }
-    await this.save(data);
+    await this.mutate(data => upsertAccount(data, name, credentials, email, accountType, profile));
   }
 
   async deleteAccount(name: string): Promise<boolean> {
-    const data = await this.load();
-    const index = data.accounts.findIndex(a => a.name === name);
-    if (index < 0) return false;
-    data.accounts.splice(index, 1);
-    if (data.activeAccountName === name) data.activeAccountName = null;
-    await this.save(data);
-    return true;
+    return this.mutate(data => removeAccount(data, name));
   }
 
   async renameAccount(oldName: string, newName: string): Promise<boolean> {
-    const data = await this.load();
-    const account = data.accounts.find(a => a.name === oldName);
-    if (!account) return false;
-    if (data.accounts.some(a => a.name === newName)) {
-      throw new StorageError(`Account "${newName}" already exists`);
-    }
-    account.name = newName;
-    if (data.activeAccountName === oldName) data.activeAccountName = newName;
-    await this.save(data);
-    return true;
+    return this.mutate(data => renameAccountIn(data, oldName, newName));
   }
 
   async setActiveAccount(name: string | null): Promise<void> {
-    const data = await this.load();
-    data.activeAccountName = name;
-    await this.save(data);
+    await this.mutate(data => { data.activeAccountName = name; });
+  }
+
+  async updateAccountMetadata(name: string, update: AccountMetadataUpdate): Promise<boolean> {
+    return this.mutate(data => updateMetadataIn(data, name, update));
+  }
+
+  async updateAccountProfile(name: string, profile: SavedProfile): Promise<boolean> {
+    return this.mutate(data => setProfileIn(data, name, profile));
+  }
+
+  async importAccounts(accounts: SavedAccount[], onConflict: ConflictStrategy): Promise<ImportResult> {
+    return this.mutate(data => mergeAccounts(data, accounts, onConflict));
+  }
+
+  /**
+   * Re-encrypts the store and its backups under new key material.
+   * The current key must still decrypt the file; on failure the old key stays in effect.
+   * Backups the current key cannot read are deleted rather than left under the old key.
+   */
+  async rekey(encryption: EncryptionOptions): Promise<void> {
+    await this.withLock(async () => {
+      const data = await this.load();
+      const previous = this.encryption;
+      this.encryption = encryption;
+      try {
+        await this.save(data, false);
+      } catch (err) {
+        this.encryption = previous;
+        throw err;
+      }
+      for (const backup of await this.listBackups()) {
+        try {
+          const backupData = await this.decode(await readFile(backup.path, 'utf8'), previous);
+          await writeFileAtomic(backup.path, await encrypt(JSON.stringify(backupData), encryption));
+        } catch {
+          await unlink(backup.path).catch(() => {});
+        }
+      }
+    });
+  }
+
+  /** Lists rotating backups, newest first, and whether each one decrypts with the current key. */
+  async listBackups(): Promise<BackupInfo[]> {
+    const prefix = `${basename(this.filePath)}.bak.`;
+    let entries: string[];
+    try {
+      entries = await readdir(dirname(this.filePath));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw new StorageError(`Failed to list backups: ${(err as Error).message}`);
+    }
+    const indexes = entries
+      .filter(e => e.startsWith(prefix) && /^\d+$/.test(e.slice(prefix.length)))
+      .map(e => Number(e.slice(prefix.length)))
+      .sort((a, b) => a - b);
+
+    const backups: BackupInfo[] = [];
+    for (const index of indexes) {
+      const path = join(dirname(this.filePath), `${prefix}${index}`);
+      const info: BackupInfo = { path, index, modifiedAt: new Date((await stat(path)).mtimeMs), valid: false };
+      try {
+        info.accountCount = (await this.decode(await readFile(path, 'utf8'), this.encryption)).accounts.length;
+        info.valid = true;
+      } catch (err) {
+        info.error = (err as Error).message;
+      }
+      backups.push(info);
+    }
+    return backups;
+  }
+
+  /**
+   * Restores the newest backup that decrypts. Does nothing while the main file is readable
+   * unless `force` is set. The replaced file is kept as `<file>.corrupt-<timestamp>`.
+   */
+  async recover(options: RecoverOptions = {}): Promise<RecoveryResult> {
+    return this.withLock(async () => {
+      let failure: StorageError | undefined;
+      try {
+        const data = await this.load();
+        if (!options.force) return { restored: false, source: null, accountCount: data.accounts.length };
+      } catch (err) {
+        if (!(err instanceof StorageError)) throw err;
+        failure = err;
+      }
+
+      const candidate = (await this.listBackups()).find(b => b.valid);
+      if (!candidate) {
+        throw failure ?? new StorageError('No readable backup to restore');
+      }
+      const data = await this.decode(await readFile(candidate.path, 'utf8'), this.encryption);
+
+      let quarantinedPath: string | undefined;
+      try {
+        quarantinedPath = `${this.filePath}.corrupt-${Date.now()}`;
+        await rename(this.filePath, quarantinedPath);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw new StorageError(`Failed to set aside damaged file: ${(err as Error).message}`);
+        quarantinedPath = undefined;
+      }
+      await this.save(data, false);
+      return {
+        restored: true,
+        source: candidate.path,
+        accountCount: data.accounts.length,
+        ...(quarantinedPath ? { quarantinedPath } : {}),
+      };
+    });
   }
 }
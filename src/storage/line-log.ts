@@ -0,0 +1,194 @@
+// src/storage/line-log.ts — append-only line files shared by the audit log and usage history
+import { readFile, appendFile, writeFile, link, unlink, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { encrypt, decrypt, MACHINE_ID_ENCRYPTION } from './crypto.js';
+import { withFileLock } from './lock.js';
+import { tempPath, writeFileAtomic } from './atomic.js';
+import { StorageError } from '../errors.js';
+import type { EncryptionOptions, LockOptions } from '../types.js';
+
+const LOG_VERSION = 1;
+
+export interface LineLog {
+  append(lines: string[]): Promise<void>;
+  /** All readable lines, oldest first */
+  read(): Promise<string[]>;
+  /** Rewrites the log; `fn` returns the replacement line or null to drop it. Returns lines dropped. */
+  rewrite(fn: (line: string) => string | null): Promise<number>;
+  rekey(encryption: EncryptionOptions): Promise<void>;
+}
+
+interface LogHeader {
+  format: string;
+  version: number;
+  /** Random per-log data key, encrypted under the store's key material */
+  wrappedKey: string;
+}
+
+async function readOrNull(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+/**
+ * Each line after the header is an envelope encrypted with the log's data key, so appends and
+ * reads pay for key derivation once (to unwrap the header) rather than once per line.
+ */
+export class EncryptedLineLog implements LineLog {
+  private dataKey: Buffer | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly format: string,
+    private encryption: EncryptionOptions = MACHINE_ID_ENCRYPTION,
+    private readonly lockOptions: LockOptions = {},
+  ) {}
+
+  private lineEncryption(key: Buffer): EncryptionOptions {
+    return { mode: 'key-provider', getKey: () => key };
+  }
+
+  private parseHeader(raw: string): LogHeader {
+    const header = JSON.parse(raw.slice(0, raw.indexOf('\n'))) as LogHeader;
+    if (header.format !== this.format) throw new StorageError(`${this.filePath} is not a ${this.format} file`);
+    if (header.version !== LOG_VERSION) throw new StorageError(`Unsupported log version ${header.version}`);
+    return header;
+  }
+
+  /** Creates the log with a fresh data key; `link` makes creation atomic if another process races us. */
+  private async create(): Promise<void> {
+    const header: LogHeader = {
+      format: this.format,
+      version: LOG_VERSION,
+      wrappedKey: await encrypt(randomBytes(32).toString('base64'), this.encryption),
+    };
+    const tmpPath = tempPath(this.filePath);
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tmpPath, `${JSON.stringify(header)}\n`, { encoding: 'utf8', mode: 0o600 });
+    try {
+      await link(tmpPath, this.filePath);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    } finally {
+      await unlink(tmpPath).catch(() => {});
+    }
+  }
+
+  private async getKey(createIfMissing: boolean): Promise<Buffer | null> {
+    if (this.dataKey) return this.dataKey;
+    let raw = await readOrNull(this.filePath);
+    if (raw === null) {
+      if (!createIfMissing) return null;
+      await this.create();
+      raw = (await readOrNull(this.filePath))!;
+    }
+    const header = this.parseHeader(raw);
+    this.dataKey = Buffer.from(await decrypt(header.wrappedKey, this.encryption), 'base64');
+    return this.dataKey;
+  }
+
+  async append(lines: string[]): Promise<void> {
+    if (lines.length === 0) return;
+    const key = (await this.getKey(true))!;
+    const encrypted = await Promise.all(lines.map(line => encrypt(line, this.lineEncryption(key))));
+    const content = encrypted.map(line => `${line}\n`).join('');
+    await withFileLock(`${this.filePath}.lock`, () => appendFile(this.filePath, content, 'utf8'), this.lockOptions);
+  }
+
+  /** Lines that fail to decrypt (e.g. a torn write) are skipped */
+  async read(): Promise<string[]> {
+    const key = await this.getKey(false);
+    if (!key) return [];
+    const raw = (await readOrNull(this.filePath)) ?? '';
+    const lines: string[] = [];
+    for (const line of raw.split('\n').slice(1)) {
+      if (!line) continue;
+      try {
+        lines.push(await decrypt(line, this.lineEncryption(key)));
+      } catch {
+        // skip damaged line
+      }
+    }
+    return lines;
+  }
+
+  async rewrite(fn: (line: string) => string | null): Promise<number> {
+    const key = await this.getKey(false);
+    if (!key) return 0;
+    return withFileLock(`${this.filePath}.lock`, async () => {
+      const raw = (await readOrNull(this.filePath)) ?? '';
+      const [headerLine, ...rest] = raw.split('\n');
+      const kept: string[] = [];
+      let dropped = 0;
+      for (const line of rest) {
+        if (!line) continue;
+        let plaintext: string;
+        try {
+          plaintext = await decrypt(line, this.lineEncryption(key));
+        } catch {
+          dropped++;
+          continue;
+        }
+        const replacement = fn(plaintext);
+        if (replacement === null) dropped++;
+        else kept.push(replacement === plaintext ? line : await encrypt(replacement, this.lineEncryption(key)));
+      }
+      await writeFileAtomic(this.filePath, [headerLine, ...kept].map(l => `${l}\n`).join(''));
+      return dropped;
+    }, this.lockOptions);
+  }
+
+  /** Re-wraps the data key under new key material; lines are left untouched. */
+  async rekey(encryption: EncryptionOptions): Promise<void> {
+    await withFileLock(`${this.filePath}.lock`, async () => {
+      const raw = await readOrNull(this.filePath);
+      if (raw !== null) {
+        const header = this.parseHeader(raw);
+        const key = await decrypt(header.wrappedKey, this.encryption);
+        const rewrapped: LogHeader = { ...header, wrappedKey: await encrypt(key, encryption) };
+        await writeFileAtomic(this.filePath, `${JSON.stringify(rewrapped)}${raw.slice(raw.indexOf('\n'))}`);
+      }
+      this.encryption = encryption;
+    }, this.lockOptions);
+  }
+}
+
+/** Plain JSONL for data that does not need encryption and should be readable by other tools */
+export class PlainLineLog implements LineLog {
+  constructor(
+    private readonly filePath: string,
+    private readonly lockOptions: LockOptions = {},
+  ) {}
+
+  async append(lines: string[]): Promise<void> {
+    if (lines.length === 0) return;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const content = lines.map(line => `${line}\n`).join('');
+    await withFileLock(`${this.filePath}.lock`, () => appendFile(this.filePath, content, { encoding: 'utf8', mode: 0o600 }), this.lockOptions);
+  }
+
+  async read(): Promise<string[]> {
+    const raw = await readOrNull(this.filePath);
+    return raw === null ? [] : raw.split('\n').filter(line => line.length > 0);
+  }
+
+  async rewrite(fn: (line: string) => string | null): Promise<number> {
+    return withFileLock(`${this.filePath}.lock`, async () => {
+      const raw = await readOrNull(this.filePath);
+      if (raw === null) return 0;
+      const lines = raw.split('\n').filter(line => line.length > 0);
+      const kept = lines.map(fn).filter((line): line is string => line !== null);
+      await writeFileAtomic(this.filePath, kept.map(l => `${l}\n`).join(''));
+      return lines.length - kept.length;
+    }, this.lockOptions);
+  }
+
+  async rekey(): Promise<void> {
+    // Nothing is encrypted
+  }
+}
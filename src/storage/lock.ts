@@ -0,0 +1,127 @@
+// src/storage/lock.ts — advisory lock files for cross-process coordination
+import { link, open, readFile, rename, stat, unlink, utimes } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { StorageError } from '../errors.js';
+import type { LockOptions } from '../types.js';
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+  token: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_MS = 30_000;
+const DEFAULT_RETRY_MS = 25;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+type LockState =
+  | { kind: 'gone' }
+  | { kind: 'held' }
+  | { kind: 'stale'; content: string };
+
+async function inspect(lockPath: string, staleMs: number): Promise<LockState> {
+  try {
+    const info = await stat(lockPath);
+    const content = await readFile(lockPath, 'utf8');
+    if (Date.now() - info.mtimeMs > staleMs) return { kind: 'stale', content };
+    const owner = JSON.parse(content) as LockOwner;
+    const dead = owner.hostname === hostname() && !isProcessAlive(owner.pid);
+    return dead ? { kind: 'stale', content } : { kind: 'held' };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { kind: 'gone' };
+    // Unparseable owner (e.g. lock mid-write) — let the mtime check decide next time
+    return { kind: 'held' };
+  }
+}
+
+async function breakLock(lockPath: string, staleContent: string): Promise<void> {
+  // Rename first so that only one contender removes a given stale lock
+  const tombstone = `${lockPath}.${randomBytes(4).toString('hex')}.stale`;
+  try {
+    await rename(lockPath, tombstone);
+  } catch {
+    return; // another process got there first
+  }
+  // If the lock was replaced after we inspected it, we just moved a live lock — put it back
+  const moved = await readFile(tombstone, 'utf8').catch(() => staleContent);
+  if (moved !== staleContent) await link(tombstone, lockPath).catch(() => {});
+  await unlink(tombstone).catch(() => {});
+}
+
+async function acquire(lockPath: string, options: LockOptions): Promise<string> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const retryMs = options.retryIntervalMs ?? DEFAULT_RETRY_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const owner: LockOwner = {
+      pid: process.pid,
+      hostname: hostname(),
+      acquiredAt: new Date().toISOString(),
+      token: randomBytes(8).toString('hex'),
+    };
+    const content = JSON.stringify(owner);
+    try {
+      const handle = await open(lockPath, 'wx');
+      await handle.writeFile(content, 'utf8');
+      await handle.close();
+      return content;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    }
+    const state = await inspect(lockPath, staleMs);
+    if (state.kind === 'gone') continue;
+    if (state.kind === 'stale') {
+      await breakLock(lockPath, state.content);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new StorageError(`Timed out after ${timeoutMs}ms waiting for lock ${lockPath}`);
+    }
+    await sleep(retryMs + Math.floor(Math.random() * retryMs));
+  }
+}
+
+async function release(lockPath: string, content: string): Promise<void> {
+  // Only remove the lock if it is still ours (it may have been broken as stale)
+  const current = await readFile(lockPath, 'utf8').catch(() => null);
+  if (current === content) await unlink(lockPath).catch(() => {});
+}
+
+/**
+ * Runs `fn` while holding an advisory lock file at `lockPath`.
+ * Locks left behind by crashed processes are broken once older than `staleMs`
+ * or when their owning process is gone. The holder touches the file every third of
+ * `staleMs`, so a long-running `fn` (e.g. a token refresh waiting out Retry-After) keeps it.
+ */
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>, options: LockOptions = {}): Promise<T> {
+  const content = await acquire(lockPath, options);
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    utimes(lockPath, now, now).catch(() => {});
+  }, (options.staleMs ?? DEFAULT_STALE_MS) / 3);
+  heartbeat.unref();
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    await release(lockPath, content);
+  }
+}
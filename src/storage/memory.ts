@@ -0,0 +1,45 @@
+// src/storage/memory.ts — non-persistent storage for tests and short-lived jobs
+import { emptyAccountsData, upsertAccount, removeAccount, renameAccountIn, mergeAccounts, updateMetadataIn, setProfileIn } from './accounts.js';
+import { migrateAccountsData } from './migrations.js';
+import type { AccountStorage } from './types.js';
+import type { AccountMetadataUpdate, AccountsData, AccountType, ConflictStrategy, ImportResult, SavedAccount, SavedProfile } from '../types.js';
+
+export class MemoryAccountStorage implements AccountStorage {
+  private data: AccountsData;
+
+  constructor(initial?: Omit<AccountsData, 'schemaVersion'> & { schemaVersion?: number }) {
+    this.data = initial ? migrateAccountsData(structuredClone(initial)) : emptyAccountsData();
+  }
+
+  async load(): Promise<AccountsData> {
+    return structuredClone(this.data);
+  }
+
+  async saveAccount(name: string, credentials: string, email?: string, accountType: AccountType = 'oauth', profile?: SavedProfile): Promise<void> {
+    upsertAccount(this.data, name, credentials, email, accountType, profile);
+  }
+
+  async deleteAccount(name: string): Promise<boolean> {
+    return removeAccount(this.data, name);
+  }
+
+  async renameAccount(oldName: string, newName: string): Promise<boolean> {
+    return renameAccountIn(this.data, oldName, newName);
+  }
+
+  async setActiveAccount(name: string | null): Promise<void> {
+    this.data.activeAccountName = name;
+  }
+
+  async updateAccountMetadata(name: string, update: AccountMetadataUpdate): Promise<boolean> {
+    return updateMetadataIn(this.data, name, update);
+  }
+
+  async updateAccountProfile(name: string, profile: SavedProfile): Promise<boolean> {
+    return setProfileIn(this.data, name, profile);
+  }
+
+  async importAccounts(accounts: SavedAccount[], onConflict: ConflictStrategy): Promise<ImportResult> {
+    return mergeAccounts(this.data, accounts, onConflict);
+  }
+}
@@ -0,0 +1,80 @@
+// src/storage/migrations.ts — upgrades persisted AccountsData to the current schema
+import { StorageError } from '../errors.js';
+import type { AccountsData } from '../types.js';
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+type RawAccount = Record<string, unknown>;
+
+/** A payload whose envelope has been checked; accounts are plain objects, not yet SavedAccounts */
+interface MigratingData extends Record<string, unknown> {
+  accounts: RawAccount[];
+}
+
+interface Migration {
+  /** Schema version this migration produces */
+  version: number;
+  description: string;
+  /** Must be idempotent — it may see data that is already partially migrated */
+  up(data: MigratingData): void;
+}
+
+// Ordered by version; payloads without `schemaVersion` are treated as version 0.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Default missing accountType to oauth',
+    up(data) {
+      for (const account of data.accounts) {
+        account.accountType ??= 'oauth';
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Add account metadata (tags, enabled)',
+    up(data) {
+      for (const account of data.accounts) {
+        account.tags ??= [];
+        account.enabled ??= true;
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Add optional account profile (filled on the next usage fetch)',
+    up() {
+      // Nothing to backfill; the bump keeps older versions from dropping stored profiles
+    },
+  },
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates the envelope of a parsed payload and runs every migration newer than its
+ * `schemaVersion`. Refuses data written by a newer library rather than dropping fields.
+ */
+export function migrateAccountsData(raw: unknown): AccountsData {
+  if (!isObject(raw) || !Array.isArray(raw['accounts']) || !raw['accounts'].every(isObject)) {
+    throw new StorageError('Accounts data is malformed');
+  }
+  const data = raw as MigratingData;
+  const version = data['schemaVersion'] ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new StorageError(`Invalid accounts schema version: ${String(version)}`);
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new StorageError(
+      `Accounts data uses schema version ${version}, but this library only supports up to ${CURRENT_SCHEMA_VERSION} — upgrade @narai/claude-usage-core`,
+    );
+  }
+  data['activeAccountName'] ??= null;
+  for (const migration of MIGRATIONS) {
+    if (migration.version > version) migration.up(data);
+  }
+  data['schemaVersion'] = CURRENT_SCHEMA_VERSION;
+  return data as unknown as AccountsData;
+}
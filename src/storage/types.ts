@@ -0,0 +1,34 @@
+// src/storage/types.ts
+import type { AccountMetadataUpdate, AccountsData, AccountType, BackupInfo, ConflictStrategy, EncryptionOptions, ImportResult, RecoverOptions, RecoveryResult, SavedAccount, SavedProfile } from '../types.js';
+
+/**
+ * Persistence backend for saved accounts.
+ * Implementations must behave like the default encrypted-file `AccountStore`;
+ * run `describeAccountStorageConformance` from `@narai/claude-usage-core/testing/conformance` against new backends.
+ */
+export interface AccountStorage {
+  /** Returns a fresh copy of all accounts; mutating it does not affect storage */
+  load(): Promise<AccountsData>;
+  /**
+   * Inserts or replaces an account in one write; keeps the stored email and profile when
+   * `email` or `profile` is omitted
+   */
+  saveAccount(name: string, credentials: string, email?: string, accountType?: AccountType, profile?: SavedProfile): Promise<void>;
+  /** Returns false when no account has that name */
+  deleteAccount(name: string): Promise<boolean>;
+  /** Returns false when `oldName` is unknown; throws StorageError when `newName` is taken */
+  renameAccount(oldName: string, newName: string): Promise<boolean>;
+  setActiveAccount(name: string | null): Promise<void>;
+  /** Applies a partial metadata update; returns false when no account has that name */
+  updateAccountMetadata(name: string, update: AccountMetadataUpdate): Promise<boolean>;
+  /** Replaces the stored profile without touching credentials; returns false when no account has that name */
+  updateAccountProfile(name: string, profile: SavedProfile): Promise<boolean>;
+  /** Adds complete records as-is (including savedAt), resolving name clashes per `onConflict` */
+  importAccounts(accounts: SavedAccount[], onConflict: ConflictStrategy): Promise<ImportResult>;
+  /** Re-encrypts stored data under new key material (encrypted backends only) */
+  rekey?(encryption: EncryptionOptions): Promise<void>;
+  /** Lists restorable backups, newest first (backends that keep backups only) */
+  listBackups?(): Promise<BackupInfo[]>;
+  /** Restores the newest readable backup (backends that keep backups only) */
+  recover?(options?: RecoverOptions): Promise<RecoveryResult>;
+}
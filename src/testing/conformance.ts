@@ -0,0 +1,149 @@
+// src/testing/conformance.ts — behaviour every AccountStorage backend must share, published as
+// @narai/claude-usage-core/testing/conformance (requires vitest)
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AccountStorage } from '../storage/index.js';
+import { CURRENT_SCHEMA_VERSION } from '../storage/migrations.js';
+import { StorageError } from '../errors.js';
+
+export interface ConformanceHarness {
+  /** Returns a new, empty backend */
+  create(): Promise<AccountStorage>;
+  /** Returns a second handle onto the same data, or undefined if the backend is not shareable */
+  reopen?(): Promise<AccountStorage>;
+  cleanup?(): Promise<void>;
+}
+
+/** Registers the conformance tests as a vitest `describe` block; call it at the top level of a test file */
+export function describeAccountStorageConformance(name: string, harness: ConformanceHarness): void {
+  describe(`AccountStorage conformance: ${name}`, () => {
+    let storage: AccountStorage;
+
+    beforeEach(async () => {
+      storage = await harness.create();
+    });
+
+    afterEach(async () => {
+      await harness.cleanup?.();
+    });
+
+    it('starts empty', async () => {
+      expect(await storage.load()).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, accounts: [], activeAccountName: null });
+    });
+
+    it('saves, updates and lists accounts', async () => {
+      await storage.saveAccount('Work', 'creds-v1', 'work@example.com');
+      await storage.saveAccount('Org', '{"adminApiKey":"k"}', undefined, 'admin');
+      await storage.saveAccount('Work', 'creds-v2');
+      const data = await storage.load();
+      expect(data.accounts.map(a => a.name)).toEqual(['Work', 'Org']);
+      expect(data.accounts[0]).toMatchObject({ credentials: 'creds-v2', email: 'work@example.com', accountType: 'oauth' });
+      expect(data.accounts[1].accountType).toBe('admin');
+      expect(new Date(data.accounts[0].savedAt).getTime()).not.toBeNaN();
+    });
+
+    it('returns copies that do not alias stored state', async () => {
+      await storage.saveAccount('Work', 'creds');
+      const data = await storage.load();
+      data.accounts[0].credentials = 'mutated';
+      data.activeAccountName = 'Work';
+      const reloaded = await storage.load();
+      expect(reloaded.accounts[0].credentials).toBe('creds');
+      expect(reloaded.activeAccountName).toBeNull();
+    });
+
+    it('deletes accounts and clears the active account', async () => {
+      await storage.saveAccount('Work', 'creds');
+      await storage.setActiveAccount('Work');
+      expect(await storage.deleteAccount('Work')).toBe(true);
+      expect(await storage.deleteAccount('Work')).toBe(false);
+      expect(await storage.load()).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, accounts: [], activeAccountName: null });
+    });
+
+    it('renames accounts and follows the active account', async () => {
+      await storage.saveAccount('Old', 'creds');
+      await storage.saveAccount('Other', 'creds');
+      await storage.setActiveAccount('Old');
+      expect(await storage.renameAccount('Old', 'New')).toBe(true);
+      expect(await storage.renameAccount('Missing', 'X')).toBe(false);
+      await expect(storage.renameAccount('New', 'Other')).rejects.toBeInstanceOf(StorageError);
+      const data = await storage.load();
+      expect(data.accounts.map(a => a.name)).toEqual(['New', 'Other']);
+      expect(data.activeAccountName).toBe('New');
+    });
+
+    it('sets and clears the active account', async () => {
+      await storage.saveAccount('Work', 'creds');
+      await storage.setActiveAccount('Work');
+      expect((await storage.load()).activeAccountName).toBe('Work');
+      await storage.setActiveAccount(null);
+      expect((await storage.load()).activeAccountName).toBeNull();
+    });
+
+    it('updates metadata and keeps it across credential updates', async () => {
+      await storage.saveAccount('Work', 'creds-v1');
+      expect(await storage.updateAccountMetadata('Work', { tags: ['team-a', ' team-a ', ''], note: 'shared', color: '#ff0000', enabled: false })).toBe(true);
+      expect(await storage.updateAccountMetadata('Missing', { enabled: false })).toBe(false);
+      await storage.saveAccount('Work', 'creds-v2');
+      let [account] = (await storage.load()).accounts;
+      expect(account).toMatchObject({ credentials: 'creds-v2', tags: ['team-a'], note: 'shared', color: '#ff0000', enabled: false });
+
+      await storage.updateAccountMetadata('Work', { note: null, color: null, enabled: true });
+      [account] = (await storage.load()).accounts;
+      expect(account.note).toBeUndefined();
+      expect(account.color).toBeUndefined();
+      expect(account.enabled).toBe(true);
+      expect(account.tags).toEqual(['team-a']);
+    });
+
+    it('stores the profile and keeps it across credential updates', async () => {
+      const profile = {
+        plan: 'max' as const,
+        accountUuid: 'u1',
+        displayName: 'T',
+        organization: { uuid: 'o1', name: 'Org', type: 'personal', billingType: 'stripe', rateLimitTier: 'tier1', subscriptionStatus: 'active', hasExtraUsageEnabled: false },
+        fetchedAt: '2026-03-01T00:00:00.000Z',
+      };
+      await storage.saveAccount('Work', 'creds-v1');
+      expect(await storage.updateAccountProfile('Work', profile)).toBe(true);
+      expect(await storage.updateAccountProfile('Missing', profile)).toBe(false);
+      await storage.saveAccount('Work', 'creds-v2');
+      expect((await storage.load()).accounts[0].profile).toEqual(profile);
+
+      const replaced = { ...profile, plan: 'pro' as const };
+      await storage.saveAccount('Work', 'creds-v3', undefined, 'oauth', replaced);
+      expect((await storage.load()).accounts[0]).toMatchObject({ credentials: 'creds-v3', profile: replaced });
+    });
+
+    it('imports complete records and resolves conflicts', async () => {
+      await storage.saveAccount('Work', 'local-creds', 'local@example.com');
+      const incoming = [
+        { name: 'Work', email: 'remote@example.com', accountType: 'oauth' as const, credentials: 'remote-creds', savedAt: '2025-01-01T00:00:00.000Z' },
+        { name: 'Org', accountType: 'admin' as const, credentials: '{"adminApiKey":"k"}', savedAt: '2025-02-01T00:00:00.000Z' },
+      ];
+
+      expect(await storage.importAccounts(incoming, 'skip')).toEqual({ imported: ['Org'], skipped: ['Work'], renamed: [] });
+      let data = await storage.load();
+      expect(data.accounts.find(a => a.name === 'Work')?.credentials).toBe('local-creds');
+      expect(data.accounts.find(a => a.name === 'Org')?.savedAt).toBe('2025-02-01T00:00:00.000Z');
+
+      const renamed = await storage.importAccounts(incoming.slice(0, 1), 'rename');
+      expect(renamed.renamed).toEqual([{ from: 'Work', to: 'Work (2)' }]);
+
+      await storage.importAccounts(incoming.slice(0, 1), 'overwrite');
+      data = await storage.load();
+      expect(data.accounts.map(a => a.name)).toEqual(['Work', 'Org', 'Work (2)']);
+      expect(data.accounts[0]).toMatchObject({ credentials: 'remote-creds', email: 'remote@example.com', savedAt: '2025-01-01T00:00:00.000Z' });
+    });
+
+    it('does not lose writes made concurrently', async () => {
+      await Promise.all(Array.from({ length: 5 }, (_, i) => storage.saveAccount(`acct-${i}`, 'creds')));
+      expect((await storage.load()).accounts).toHaveLength(5);
+    });
+
+    it.runIf(harness.reopen)('shares data between handles', async () => {
+      await storage.saveAccount('Work', 'creds');
+      const other = await harness.reopen!();
+      expect((await other.load()).accounts[0].name).toBe('Work');
+    });
+  });
+}
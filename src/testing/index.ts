@@ -0,0 +1,15 @@
+// src/testing/index.ts — offline test helpers, published as @narai/claude-usage-core/testing
+export { MockAnthropicServer } from './mock-server.js';
+export type {
+  MockAdminOrg,
+  MockAdminOrgInit,
+  MockFailure,
+  MockOAuthAccount,
+  MockOAuthAccountInit,
+  MockRequest,
+  MockRoute,
+  MockScenario,
+  MockScenarioOptions,
+  MockScenarioResult,
+  MockServerOptions,
+} from './mock-server.js';
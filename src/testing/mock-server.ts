@@ -0,0 +1,349 @@
+// src/testing/mock-server.ts — programmable stand-in for the Anthropic endpoints this library calls
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomBytes } from 'node:crypto';
+import type { ProfileResponse, UsageResponse } from '../usage/index.js';
+import type { RawBucket, RawCostBucket } from '../admin/index.js';
+import type { ApiBaseUrls } from '../types.js';
+import { HOUR_MS } from '../usage/windows.js';
+
+export type MockRoute = 'usage' | 'profile' | 'token' | 'messages' | 'cost';
+
+export type MockScenario = 'near-limit' | 'expired-token' | 'unauthorized' | 'rate-limited' | 'paginated-org';
+
+export interface MockServerOptions {
+  /** Default 127.0.0.1 */
+  host?: string;
+  /** Default 0 (any free port) */
+  port?: number;
+}
+
+/** Live server-side state of an OAuth account; edit `usage` between calls to change what the next fetch sees */
+export interface MockOAuthAccount {
+  accessToken: string;
+  refreshToken: string;
+  usage: UsageResponse;
+  profile: ProfileResponse;
+}
+
+export interface MockOAuthAccountInit {
+  accessToken?: string;
+  refreshToken?: string;
+  /** Merged over the defaults (10% session, 5% weekly, no other windows) */
+  usage?: Partial<UsageResponse>;
+  profile?: { account?: Partial<ProfileResponse['account']>; organization?: Partial<ProfileResponse['organization']> };
+  /** Written into the returned credentials (default: an hour from now) */
+  expiresAt?: Date;
+}
+
+export interface MockAdminOrg {
+  apiKey: string;
+  usage: RawBucket[];
+  cost: RawCostBucket[];
+  /** Buckets per page on both report endpoints */
+  pageSize: number;
+}
+
+export type MockAdminOrgInit = Partial<MockAdminOrg>;
+
+export interface MockFailure {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** How many matching requests fail before normal handling resumes (default 1) */
+  times?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  route: MockRoute | null;
+  at: Date;
+}
+
+export interface MockScenarioOptions {
+  /** rate-limited: number of 429 responses before usage succeeds (default 1) */
+  times?: number;
+  /** rate-limited: Retry-After header value (default 1) */
+  retryAfterSeconds?: number;
+}
+
+export interface MockScenarioResult {
+  /** OAuth scenarios: credentials JSON for `saveAccount()` */
+  credentials?: string;
+  /** Admin scenarios: key for `saveAdminAccount()` */
+  adminApiKey?: string;
+  account?: MockOAuthAccount;
+  org?: MockAdminOrg;
+}
+
+const ROUTES: Record<string, MockRoute> = {
+  'GET /api/oauth/usage': 'usage',
+  'GET /api/oauth/profile': 'profile',
+  'POST /v1/oauth/token': 'token',
+  'GET /v1/organizations/usage_report/messages': 'messages',
+  'GET /v1/organizations/cost_report': 'cost',
+};
+
+const TOKEN_LIFETIME_S = 3600;
+
+function token(prefix: string): string {
+  return `${prefix}-${randomBytes(12).toString('hex')}`;
+}
+
+function window(utilization: number, resetsInMs: number) {
+  return { utilization, resets_at: new Date(Date.now() + resetsInMs).toISOString() };
+}
+
+function day(offset: number): string {
+  const date = new Date();
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() + offset);
+  return date.toISOString().replace('.000Z', 'Z');
+}
+
+function usageBucket(offset: number, apiKeyId: string, outputTokens: number): RawBucket {
+  return {
+    starting_at: day(offset),
+    ending_at: day(offset + 1),
+    results: [{
+      api_key_id: apiKeyId,
+      model: 'claude-sonnet-4-20250514',
+      workspace_id: null,
+      uncached_input_tokens: outputTokens * 4,
+      cache_read_input_tokens: 0,
+      cache_creation: { ephemeral_5m_input_tokens: 0, ephemeral_1h_input_tokens: 0 },
+      output_tokens: outputTokens,
+      server_tool_use: { web_search_requests: 0 },
+    }],
+  };
+}
+
+function costBucket(offset: number, cents: number): RawCostBucket {
+  return {
+    starting_at: day(offset),
+    ending_at: day(offset + 1),
+    results: [{
+      amount: cents.toFixed(2),
+      currency: 'USD',
+      cost_type: 'tokens',
+      description: null,
+      model: 'claude-sonnet-4-20250514',
+      token_type: null,
+      service_tier: 'standard',
+      workspace_id: null,
+      context_window: null,
+      inference_geo: null,
+      speed: null,
+    }],
+  };
+}
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+}
+
+function apiError(type: string, message: string) {
+  return { type: 'error', error: { type, message } };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+/**
+ * Serves the OAuth usage, profile and token endpoints and the Admin API usage and cost reports
+ * from in-memory state, for offline integration tests against a real `ClaudeUsageClient`:
+ *
+ *   const server = await MockAnthropicServer.start();
+ *   const client = new ClaudeUsageClient({ storage: new MemoryAccountStorage(), baseUrls: server.baseUrls });
+ *   await client.saveAccount('Work', server.useScenario('near-limit').credentials);
+ */
+export class MockAnthropicServer {
+  /** Every request received, oldest first */
+  readonly requests: MockRequest[] = [];
+  private readonly accounts: MockOAuthAccount[] = [];
+  private readonly orgs: MockAdminOrg[] = [];
+  private readonly failures = new Map<MockRoute, Required<MockFailure>[]>();
+
+  private constructor(private readonly server: Server, readonly url: string) {}
+
+  static async start(options: MockServerOptions = {}): Promise<MockAnthropicServer> {
+    const server = createServer();
+    const host = options.host ?? '127.0.0.1';
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(options.port ?? 0, host, resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    const mock = new MockAnthropicServer(server, `http://${host}:${port}`);
+    server.on('request', (req, res) => {
+      mock.handle(req, res).catch(err => send(res, 500, apiError('api_error', (err as Error).message)));
+    });
+    return mock;
+  }
+
+  /** Pass as the client's `baseUrls` */
+  get baseUrls(): Required<ApiBaseUrls> {
+    return { api: this.url, oauth: this.url };
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => this.server.close(err => (err ? reject(err) : resolve())));
+  }
+
+  addOAuthAccount(init: MockOAuthAccountInit = {}): { account: MockOAuthAccount; credentials: string } {
+    const account: MockOAuthAccount = {
+      accessToken: init.accessToken ?? token('sk-ant-oat01'),
+      refreshToken: init.refreshToken ?? token('sk-ant-ort01'),
+      usage: {
+        five_hour: window(10, 2 * HOUR_MS),
+        seven_day: window(5, 72 * HOUR_MS),
+        extra_usage: { is_enabled: false, monthly_limit: null, used_credits: null, utilization: null },
+        ...init.usage,
+      },
+      profile: {
+        account: {
+          uuid: token('acct'),
+          full_name: 'Mock User',
+          display_name: 'Mock',
+          email: `mock-${this.accounts.length + 1}@example.com`,
+          has_claude_max: true,
+          has_claude_pro: false,
+          created_at: '2025-01-01T00:00:00Z',
+          ...init.profile?.account,
+        },
+        organization: {
+          uuid: token('org'),
+          name: 'Mock Org',
+          organization_type: 'claude_max',
+          billing_type: 'stripe_subscription',
+          rate_limit_tier: 'default_claude_max_5x',
+          has_extra_usage_enabled: false,
+          subscription_status: 'active',
+          subscription_created_at: '2025-01-01T00:00:00Z',
+          ...init.profile?.organization,
+        },
+      },
+    };
+    this.accounts.push(account);
+    return { account, credentials: this.credentialsFor(account, init.expiresAt) };
+  }
+
+  /** Credentials JSON in the shape Claude Code stores, for `saveAccount()` */
+  credentialsFor(account: Pick<MockOAuthAccount, 'accessToken' | 'refreshToken'>, expiresAt = new Date(Date.now() + HOUR_MS)): string {
+    return JSON.stringify({
+      claudeAiOauth: { accessToken: account.accessToken, refreshToken: account.refreshToken, expiresAt: expiresAt.toISOString() },
+    });
+  }
+
+  addAdminOrg(init: MockAdminOrgInit = {}): MockAdminOrg {
+    const org: MockAdminOrg = {
+      apiKey: init.apiKey ?? token('sk-ant-admin01'),
+      usage: init.usage ?? [usageBucket(0, 'key-1', 1000)],
+      cost: init.cost ?? [costBucket(0, 150)],
+      pageSize: init.pageSize ?? 31,
+    };
+    this.orgs.push(org);
+    return org;
+  }
+
+  /** The next `times` requests to `route` get this response instead of normal handling */
+  fail(route: MockRoute, failure: MockFailure): void {
+    const queue = this.failures.get(route) ?? [];
+    queue.push({ body: apiError('api_error', `Mock failure ${failure.status}`), headers: {}, times: 1, ...failure });
+    this.failures.set(route, queue);
+  }
+
+  /**
+   * Sets up a ready-made situation and returns what to save in the client:
+   * - `near-limit`: session at 92%, weekly at 85%, Opus at 97%
+   * - `expired-token`: credentials past their expiry; the token endpoint rotates them
+   * - `unauthorized`: tokens the server rejects (401 on usage, invalid_grant on refresh)
+   * - `rate-limited`: usage answers 429 with Retry-After, then succeeds
+   * - `paginated-org`: an admin key whose reports span three pages
+   */
+  useScenario(scenario: MockScenario, options: MockScenarioOptions = {}): MockScenarioResult {
+    switch (scenario) {
+      case 'near-limit':
+        return this.addOAuthAccount({
+          usage: {
+            five_hour: window(92, HOUR_MS),
+            seven_day: window(85, 48 * HOUR_MS),
+            seven_day_opus: window(97, 48 * HOUR_MS),
+          },
+        });
+      case 'expired-token':
+        return this.addOAuthAccount({ expiresAt: new Date(Date.now() - 60_000) });
+      case 'unauthorized':
+        return { credentials: this.credentialsFor({ accessToken: token('sk-ant-oat01'), refreshToken: token('sk-ant-ort01') }) };
+      case 'rate-limited': {
+        const result = this.addOAuthAccount();
+        this.fail('usage', {
+          status: 429,
+          body: apiError('rate_limit_error', 'Rate limited'),
+          headers: { 'Retry-After': String(options.retryAfterSeconds ?? 1) },
+          times: options.times ?? 1,
+        });
+        return result;
+      }
+      case 'paginated-org': {
+        const org = this.addAdminOrg({
+          usage: [usageBucket(-2, 'key-1', 1000), usageBucket(-1, 'key-2', 2000), usageBucket(0, 'key-1', 500)],
+          cost: [costBucket(-2, 120), costBucket(-1, 240), costBucket(0, 60)],
+          pageSize: 1,
+        });
+        return { adminApiKey: org.apiKey, org };
+      }
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.url);
+    const route = ROUTES[`${req.method} ${url.pathname}`] ?? null;
+    this.requests.push({ method: req.method ?? 'GET', path: url.pathname + url.search, route, at: new Date() });
+    if (!route) return send(res, 404, apiError('not_found_error', `No mock for ${req.method} ${url.pathname}`));
+
+    const failure = this.failures.get(route)?.[0];
+    if (failure) {
+      if (--failure.times <= 0) this.failures.get(route)!.shift();
+      return send(res, failure.status, failure.body, failure.headers);
+    }
+
+    switch (route) {
+      case 'usage':
+      case 'profile': {
+        const bearer = req.headers.authorization?.replace(/^Bearer /, '');
+        const account = this.accounts.find(a => a.accessToken === bearer);
+        if (!account) return send(res, 401, apiError('authentication_error', 'Invalid bearer token'));
+        return send(res, 200, route === 'usage' ? account.usage : account.profile);
+      }
+      case 'token': {
+        const body = JSON.parse(await readBody(req) || '{}') as { grant_type?: string; refresh_token?: string };
+        const account = this.accounts.find(a => a.refreshToken === body.refresh_token);
+        if (body.grant_type !== 'refresh_token' || !account) {
+          return send(res, 400, { error: 'invalid_grant', error_description: 'Invalid refresh token' });
+        }
+        account.accessToken = token('sk-ant-oat01');
+        account.refreshToken = token('sk-ant-ort01');
+        return send(res, 200, { access_token: account.accessToken, refresh_token: account.refreshToken, expires_in: TOKEN_LIFETIME_S });
+      }
+      case 'messages':
+      case 'cost': {
+        const org = this.orgs.find(o => o.apiKey === req.headers['x-api-key']);
+        if (!org) return send(res, 401, apiError('authentication_error', 'Invalid API key'));
+        const buckets: unknown[] = route === 'messages' ? org.usage : org.cost;
+        const start = Number(url.searchParams.get('page') ?? 0);
+        const end = start + org.pageSize;
+        return send(res, 200, {
+          data: buckets.slice(start, end),
+          has_more: end < buckets.length,
+          next_page: end < buckets.length ? String(end) : null,
+        });
+      }
+    }
+  }
+}
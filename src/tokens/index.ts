@@ -1,6 +1,9 @@
 // src/tokens/index.ts
 import type { ClaudeCredentials } from '../types.js';
 import { OAUTH_CLIENT_ID, OAUTH_TOKEN_URL } from '../auth/index.js';
+import { errorForResponse, request, withBaseUrl, type RequestOptions } from '../http/index.js';
+import { TokenExpiredError } from '../errors.js';
+import { number, object, string, validateResponse } from '../validation/index.js';
 
 export interface TokenValidation {
   isValid: boolean;
@@ -13,8 +16,25 @@ export interface RefreshResult {
   success: boolean;
   newCredentials?: string;
   error?: string;
+  /**
+   * Why the refresh failed: TokenExpiredError when the grant was rejected (HTTP 400/401) or there
+   * is no refresh token, else the transport or API error (NetworkError, RateLimitError, ApiError, ...)
+   */
+  cause?: Error;
 }
 
+interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+}
+
+// Checked even in lenient mode: saving credentials without a refresh token would end refreshing for good
+const tokenResponse = object<TokenResponse>({ access_token: string, refresh_token: string, expires_in: number });
+
+// The token endpoint answers a spent or revoked refresh token with one of these
+const REJECTED_GRANT_STATUSES = new Set([400, 401]);
+
 export function validateToken(credentialsJson: string): TokenValidation {
   try {
     const creds: ClaudeCredentials = JSON.parse(credentialsJson);
@@ -30,25 +50,33 @@ export function validateToken(credentialsJson: string): TokenValidation {
   }
 }
 
-export async function refreshToken(credentialsJson: string): Promise<RefreshResult> {
+export async function refreshToken(credentialsJson: string, options: RequestOptions = {}): Promise<RefreshResult> {
   try {
     const creds: ClaudeCredentials = JSON.parse(credentialsJson);
     const refreshTokenValue = creds.claudeAiOauth?.refreshToken;
-    if (!refreshTokenValue) return { success: false, error: 'No refresh token' };
+    if (!refreshTokenValue) return { success: false, error: 'No refresh token', cause: new TokenExpiredError('no refresh token') };
 
-    const response = await fetch(OAUTH_TOKEN_URL, {
+    const response = await request(withBaseUrl(OAUTH_TOKEN_URL, options.baseUrls?.oauth), {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ grant_type: 'refresh_token', refresh_token: refreshTokenValue, client_id: OAUTH_CLIENT_ID }),
-    });
+    }, options);
 
-    if (!response.ok) return { success: false, error: `HTTP ${response.status}` };
+    if (!response.ok) {
+      const error = `HTTP ${response.status}`;
+      const cause = REJECTED_GRANT_STATUSES.has(response.status)
+        ? new TokenExpiredError()
+        : errorForResponse(response, `Token refresh failed: ${error}`);
+      return { success: false, error, cause };
+    }
 
-    const data = await response.json() as { access_token: string; refresh_token: string; expires_in: number };
+    const data = validateResponse('/v1/oauth/token', tokenResponse, await response.json(), options.validation);
     const expiresAt = new Date(Date.now() + data.expires_in * 1000).toISOString();
 
+    // Keep the fields Claude Code stores alongside the tokens (scopes, subscriptionType, ...)
     const newCredentials: ClaudeCredentials = {
       claudeAiOauth: {
+        ...creds.claudeAiOauth,
         accessToken: data.access_token,
         refreshToken: data.refresh_token,
         expiresAt,
@@ -57,6 +85,6 @@ export async function refreshToken(credentialsJson: string): Promise<RefreshResu
 
     return { success: true, newCredentials: JSON.stringify(newCredentials) };
   } catch (err) {
-    return { success: false, error: (err as Error).message };
+    return { success: false, error: (err as Error).message, cause: err as Error };
   }
 }
@@ -1,10 +1,25 @@
 // src/types.ts
+import type { AccountStorage } from './storage/types.js';
+import type { AlertNotifier } from './alerts/types.js';
+import type { ErrorCode } from './errors.js';
 
 export interface UsageWindow {
   percent: number;
   resetsAt: Date | null;
 }
 
+/**
+ * What a usage window limits: the 5-hour session, the overall 7-day limit, a 7-day limit scoped to
+ * a model family or to a product surface, or `unknown` for windows this version does not recognize.
+ */
+export type UsageWindowKind = 'session' | 'weekly' | 'model' | 'feature' | 'unknown';
+
+export interface UsageWindowDetail extends UsageWindow {
+  kind: UsageWindowKind;
+  /** Window length, when known or implied by the API key's `five_hour`/`seven_day` prefix */
+  durationMs?: number;
+}
+
 export interface ExtraUsage {
   isEnabled: boolean;
   monthlyLimit: number | null;
@@ -12,6 +27,15 @@ export interface ExtraUsage {
   utilization: number | null;
 }
 
+/** Machine-readable companion to a usage result's `error` message */
+export interface UsageErrorInfo {
+  code: ErrorCode;
+  retryable: boolean;
+  /** HTTP status, when the failure was an API response */
+  statusCode: number | null;
+  at: Date;
+}
+
 export interface ModelUsageBreakdown {
   model: string;
   inputTokens: number;
@@ -46,12 +70,20 @@ export interface AdminAccountUsage {
   modelBreakdown: ModelUsageBreakdown[];
   actors: ActorUsage[];
   error?: string;
+  errorInfo?: UsageErrorInfo;
+  /** When this data was fetched from the API (absent on failed fetches) */
+  fetchedAt?: Date;
+  /** True when a failed fetch was answered with the last-known snapshot */
+  stale?: boolean;
 }
 
 export interface OAuthAccountUsage {
   accountType: 'oauth';
   accountName: string;
   email?: string;
+  /** Every window the endpoint returned, keyed by its API name (e.g. `seven_day_opus`), including unrecognized ones */
+  windows: Record<string, UsageWindowDetail>;
+  // Named views of the well-known entries in `windows`
   session: UsageWindow;
   weekly: UsageWindow;
   opus: UsageWindow | null;
@@ -60,54 +92,507 @@ export interface OAuthAccountUsage {
   cowork: UsageWindow | null;
   iguanaNecktie: UsageWindow | null;
   extraUsage: ExtraUsage;
+  /** Plan and organization details, refreshed at most daily */
+  profile?: AccountProfile;
   error?: string;
+  errorInfo?: UsageErrorInfo;
+  /** When this data was fetched from the API (absent on failed fetches) */
+  fetchedAt?: Date;
+  /** True when a failed fetch was answered with the last-known snapshot */
+  stale?: boolean;
 }
 
 export type AccountUsage = OAuthAccountUsage | AdminAccountUsage;
 
 export type AccountType = 'oauth' | 'admin';
 
+export type PlanTier = 'max' | 'pro' | 'free';
+
+/** Subscription details from the OAuth profile endpoint */
+export interface AccountProfile {
+  plan: PlanTier;
+  accountUuid: string;
+  displayName: string;
+  organization: {
+    uuid: string;
+    name: string;
+    /** e.g. 'personal' */
+    type: string;
+    billingType: string;
+    rateLimitTier: string;
+    /** e.g. 'active'; anything else usually means the subscription lapsed */
+    subscriptionStatus: string;
+    hasExtraUsageEnabled: boolean;
+  };
+  fetchedAt: Date;
+}
+
 export interface Account {
   name: string;
   email?: string;
   accountType: AccountType;
   isActive: boolean;
   savedAt: Date;
+  tags: string[];
+  note?: string;
+  color?: string;
+  /** Disabled accounts are kept but skipped by getAllAccountsUsage() */
+  enabled: boolean;
+  /** OAuth accounts, once the profile has been fetched */
+  profile?: AccountProfile;
+}
+
+export interface AccountMetadataUpdate {
+  /** Replaces the account's tags */
+  tags?: string[];
+  /** Free-form note; null clears it */
+  note?: string | null;
+  /** Display color, e.g. '#3b82f6'; null clears it */
+  color?: string | null;
+  enabled?: boolean;
+}
+
+export interface AccountFilter {
+  /** Only accounts carrying every one of these tags */
+  tags?: string[];
+}
+
+export type KdfOptions =
+  | {
+      algorithm: 'scrypt';
+      /** CPU/memory cost N, a power of two (default 2^15) */
+      cost?: number;
+      /** Block size r (default 8) */
+      blockSize?: number;
+      /** Parallelization p (default 1) */
+      parallelization?: number;
+    }
+  | {
+      algorithm: 'pbkdf2';
+      /** Iteration count (default 600,000) */
+      iterations?: number;
+      /** HMAC digest (default 'sha256') */
+      digest?: 'sha256' | 'sha512';
+    };
+
+export type EncryptionOptions =
+  /** Key derived from the OS machine ID (default) */
+  | { mode: 'machine-id' }
+  /** Key derived from a user passphrase via scrypt (default) or PBKDF2 */
+  | { mode: 'passphrase'; passphrase: string; kdf?: KdfOptions }
+  /** Caller-supplied 32-byte AES-256 key, e.g. from a secrets manager */
+  | { mode: 'key-provider'; getKey: () => Promise<Uint8Array> | Uint8Array };
+
+export interface LockOptions {
+  /** Give up acquiring the lock after this many milliseconds (default 10s) */
+  timeoutMs?: number;
+  /** Treat a lock its holder has not touched for this long as abandoned (default 30s) */
+  staleMs?: number;
+  /** Delay between acquisition attempts (default 25ms) */
+  retryIntervalMs?: number;
 }
 
 export interface ClaudeUsageClientOptions {
   storagePath?: string;
   betaVersion?: string;
   platform?: 'auto' | 'macos' | 'linux' | 'windows';
+  /** How the accounts file key is obtained (default: machine ID) */
+  encryption?: EncryptionOptions;
+  /** Tuning for the lock file that serializes writes across processes */
+  lock?: LockOptions;
+  /** Custom persistence backend; replaces the encrypted file at `storagePath` */
+  storage?: AccountStorage;
+  /** Rotating encrypted backups kept next to the accounts file (default 3, 0 disables) */
+  backups?: number;
+  /**
+   * Encrypted audit log of account and credential changes, written next to the accounts file
+   * by default. With a custom `storage` backend it is only kept if `path` is given.
+   * `false` disables it.
+   */
+  auditLog?: false | { path?: string };
+  /**
+   * Last-known usage snapshots, kept in an encrypted file next to the accounts file by default.
+   * With a custom `storage` backend they stay in memory unless `path` is given; `false` keeps them
+   * in memory only.
+   */
+  usageCache?: false | { path?: string };
+  /** Opt-in recorder that keeps a time series of every fetched OAuth usage snapshot */
+  history?: UsageHistoryOptions;
+  /** Threshold rules evaluated against every fetched usage result */
+  alerts?: AlertOptions;
+  /** How API responses that do not match the expected shape are handled (default 'strict') */
+  responseValidation?: ResponseValidation;
+  /** Retries for transient HTTP failures; `false` sends each request once */
+  retry?: RetryPolicy | false;
+  /**
+   * Transport for every API request, e.g. to add tracing or a custom CA. The default is the global
+   * `fetch`, routed through the proxy in HTTPS_PROXY/HTTP_PROXY (minus NO_PROXY) when one is set.
+   */
+  fetch?: FetchFunction;
+  /** Point requests at another host, such as a local stand-in or a gateway */
+  baseUrls?: ApiBaseUrls;
 }
 
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>;
+
+/** Each base is an origin, optionally with a path prefix; endpoint paths are appended to it */
+export interface ApiBaseUrls {
+  /** Usage, profile and Admin API requests (default https://api.anthropic.com) */
+  api?: string;
+  /** OAuth token refresh (default https://platform.claude.com) */
+  oauth?: string;
+}
+
+export interface RetryPolicy {
+  /** Attempts per request, including the first (default 3) */
+  maxAttempts?: number;
+  /** First backoff ceiling; doubles per attempt, with full jitter (default 500) */
+  baseDelayMs?: number;
+  /** Longest wait between attempts; a longer Retry-After is not waited out (default 30s) */
+  maxDelayMs?: number;
+  /** Retries shared by all requests of one usage call, e.g. across every account in getAllAccountsUsage() (default 10) */
+  budget?: number;
+}
+
+/**
+ * - `strict`: any mismatch throws `ResponseSchemaError`
+ * - `lenient`: malformed optional windows and malformed report entries are dropped; missing required data still throws
+ */
+export type ResponseValidation = 'strict' | 'lenient';
+
+export interface UsageHistoryOptions {
+  /**
+   * Default: usage-history.log.enc (or .jsonl) next to the accounts file. Required with a custom
+   * `storage` backend.
+   */
+  path?: string;
+  /** 'encrypted' (default) uses the accounts file's key; 'jsonl' is plain text for external tools */
+  format?: 'encrypted' | 'jsonl';
+  /** Samples older than this are pruned (default 30) */
+  retentionDays?: number;
+}
+
+/**
+ * - `network-only`: always fetch; failures return an error result
+ * - `cache-first`: serve a snapshot younger than `maxAgeMs` without fetching
+ * - `stale-while-error`: fetch, but answer failures with the last-known snapshot marked `stale`
+ */
+export type UsageCachePolicy = 'network-only' | 'cache-first' | 'stale-while-error';
+
 export interface UsageOptions {
   /** YYYY-MM-DD date string for admin API lookback start (default: 1st of current month) */
   startingAt?: string;
+  /** getAllAccountsUsage() only: restrict to accounts carrying every one of these tags */
+  tags?: string[];
+  /** How last-known snapshots are used (default 'network-only') */
+  cache?: UsageCachePolicy;
+  /**
+   * cache-first: maximum snapshot age to serve (default 60s).
+   * stale-while-error: snapshots older than this are not used as a fallback (default: no limit).
+   */
+  maxAgeMs?: number;
+  /** Cancels requests in flight and retry waits; affected accounts come back with an error */
+  signal?: AbortSignal;
 }
 
-// Internal — not exported from index.ts
-export interface ClaudeCredentials {
-  claudeAiOauth?: {
-    accessToken: string;
-    refreshToken: string;
-    expiresAt: string;
-  };
+export interface WatchUsageOptions extends UsageOptions {
+  /** Base poll interval (default 60s) */
+  intervalMs?: number;
+  /** Fastest poll rate when a window nears 100% or its reset (default: intervalMs / 4) */
+  minIntervalMs?: number;
+  /** Slowest poll rate when backing off after errors (default: intervalMs × 8) */
+  maxIntervalMs?: number;
+  /** Accounts to watch (default: all enabled accounts) */
+  accounts?: string[];
+  /** Ends the iteration, cancelling the poll in flight */
+  signal?: AbortSignal;
 }
 
-export interface AdminCredentials {
-  adminApiKey: string;
+/**
+ * - `snapshot`: first successful result for an account
+ * - `window-change`: a window's utilization changed, appeared or disappeared
+ * - `window-reset`: a window rolled over (its `resetsAt` moved forward)
+ * - `cost-change`: an admin account's estimated cost changed
+ * - `profile-change`: plan, rate limit tier, subscription status or organization changed
+ * - `error`: fetching an account started failing, or failed differently
+ */
+export type UsageChangeEvent =
+  | { type: 'snapshot'; accountName: string; usage: AccountUsage; at: Date }
+  | { type: 'window-change'; accountName: string; window: UsageWindowName; previous: UsageWindow | null; current: UsageWindow | null; usage: AccountUsage; at: Date }
+  | { type: 'window-reset'; accountName: string; window: UsageWindowName; previous: UsageWindow; current: UsageWindow; usage: AccountUsage; at: Date }
+  | { type: 'cost-change'; accountName: string; previous: number; current: number; usage: AccountUsage; at: Date }
+  | { type: 'profile-change'; accountName: string; previous: AccountProfile; current: AccountProfile; usage: AccountUsage; at: Date }
+  | { type: 'error'; accountName: string; error: string; errorInfo?: UsageErrorInfo; at: Date };
+
+/**
+ * - `updated`: the saved account's credentials were replaced with the system's
+ * - `unchanged`: the system credentials are the saved ones, or older
+ * - `no-credentials`: nothing readable in the Keychain or credentials file
+ * - `no-match`: no saved OAuth account has the same account uuid or email
+ * - `error`: the sync failed (watch mode only; syncFromSystem() throws)
+ */
+export type SystemSyncStatus = 'updated' | 'unchanged' | 'no-credentials' | 'no-match' | 'error';
+
+export interface SystemSyncResult {
+  status: SystemSyncStatus;
+  /** Saved account the system credentials belong to */
+  accountName: string | null;
+  error?: string;
+  errorInfo?: UsageErrorInfo;
+  at: Date;
+}
+
+export interface ClaudeCodeCredentialsOptions {
+  /** Claude Code's credentials file (default: the platform's, honoring CLAUDE_CONFIG_DIR on Linux; required on macOS) */
+  path?: string;
+}
+
+export interface WatchSystemCredentialsOptions {
+  /** Credentials file to watch (default: the platform's, e.g. ~/.claude/.credentials.json; required on macOS) */
+  path?: string;
+  /** Wait this long after a change before syncing, so a burst of writes syncs once (default 250ms) */
+  debounceMs?: number;
+  /** Ends the iteration */
+  signal?: AbortSignal;
+}
+
+export type ConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+export interface ExportOptions {
+  /** Accounts to include (default: all) */
+  names?: string[];
+  /** Encrypts the bundle; required again on import */
+  passphrase: string;
+  /** Passphrase stretching for the bundle (default: scrypt) */
+  kdf?: KdfOptions;
+}
+
+export interface ImportOptions {
+  passphrase: string;
+  /** What to do when a bundled account name already exists (default: 'skip') */
+  onConflict?: ConflictStrategy;
+}
+
+export interface ImportResult {
+  /** Names the accounts were stored under */
+  imported: string[];
+  skipped: string[];
+  renamed: { from: string; to: string }[];
+}
+
+export interface BackupInfo {
+  path: string;
+  /** 1 = most recent */
+  index: number;
+  modifiedAt: Date;
+  /** Whether the backup decrypts with the current key */
+  valid: boolean;
+  accountCount?: number;
+  error?: string;
+}
+
+export interface RecoverOptions {
+  /** Restore a backup even if the current file is readable */
+  force?: boolean;
 }
 
+export interface RecoveryResult {
+  restored: boolean;
+  /** Backup file that was restored, or null if nothing was done */
+  source: string | null;
+  accountCount: number;
+  /** Where the replaced file was moved */
+  quarantinedPath?: string;
+}
+
+export type UsageWindowName = 'session' | 'weekly' | 'opus' | 'sonnet' | 'oauthApps' | 'cowork' | 'iguanaNecktie';
+
+export interface UsageSample {
+  at: Date;
+  percent: number;
+  resetsAt: Date | null;
+}
+
+/** Samples per window, oldest first; windows never reported for the account are absent */
+export type UsageHistory = Partial<Record<UsageWindowName, UsageSample[]>>;
+
+export interface UsageHistoryQuery {
+  from?: Date;
+  to?: Date;
+  /** Only this window */
+  window?: UsageWindowName;
+}
+
+/** `over`: consuming faster than the window allows; `under`: slower */
+export type PaceStatus = 'under' | 'on-track' | 'over' | 'unknown';
+
+export interface WindowForecast {
+  window: UsageWindowName;
+  percent: number;
+  resetsAt: Date | null;
+  /** Percentage points per hour; null when the window length or reset time is unknown */
+  burnRatePerHour: number | null;
+  /** Utilization at `resetsAt` if the burn rate holds (may exceed 100) */
+  projectedPercentAtReset: number | null;
+  /** When the window reaches 100%, or null if not before it resets */
+  exhaustsAt: Date | null;
+  /** Fraction used divided by fraction of the window elapsed — 1 is exactly on pace */
+  pace: number | null;
+  paceStatus: PaceStatus;
+  /** 'history' when the burn rate comes from recorded samples, else the average since the window opened */
+  basis: 'history' | 'window-average';
+}
+
+export interface UsageForecast {
+  accountName: string;
+  /** Point in time the forecast describes (the usage snapshot's fetch time) */
+  asOf: Date;
+  windows: Partial<Record<UsageWindowName, WindowForecast>>;
+  /** Set when usage could not be fetched; `windows` is then empty */
+  error?: string;
+}
+
+/** `critical`: the account no longer works; `warning`: it will stop working or is failing intermittently */
+export type HealthSeverity = 'ok' | 'warning' | 'critical';
+
+export interface AccountHealth {
+  accountName: string;
+  accountType: AccountType;
+  severity: HealthSeverity;
+  /** OAuth access token expiry; null for admin keys and credentials without one */
+  expiresAt: Date | null;
+  /** Whether the credentials hold a refresh token (setup tokens do not) */
+  refreshable: boolean;
+  /** Last successful usage fetch, from the usage cache */
+  lastSuccessAt: Date | null;
+  /** Code of the latest failure since the last success: fetches by this client, or the admin key probe */
+  lastErrorCode: ErrorCode | null;
+  /** Admin accounts: whether the key authenticated during this check; null when not probed */
+  authenticated: boolean | null;
+  /** Why the severity is not `ok`; empty when it is */
+  issues: string[];
+  /** Suggested fix, e.g. re-running `authenticate()`; null when nothing is needed */
+  remediation: string | null;
+}
+
+export interface HealthCheckOptions {
+  /** Warn this many days before a token that cannot be refreshed expires (default 30) */
+  expiryWarningDays?: number;
+  /** Check that admin keys still authenticate with a small API request (default true) */
+  probeAdminKeys?: boolean;
+}
+
+/**
+ * Value an alert rule watches:
+ * - a usage window name: its utilization percent (OAuth accounts)
+ * - `extraUsageCredits`: extra-usage spend in dollars (OAuth accounts)
+ * - `estimatedCostCents` / `actualCostCents`: admin org spend for the period
+ */
+export type AlertMetric = UsageWindowName | 'extraUsageCredits' | 'estimatedCostCents' | 'actualCostCents';
+
+export interface AlertRule {
+  /** Unique; identifies the rule in events and in hysteresis state */
+  id: string;
+  metric: AlertMetric;
+  /** Fires when the value reaches this */
+  threshold: number;
+  /**
+   * After firing, the rule re-arms only once the value drops below `threshold - hysteresis`
+   * (default: 5% of the threshold), so polling near the threshold does not re-notify.
+   */
+  hysteresis?: number;
+  /** Restrict to these accounts (default: all) */
+  accounts?: string[];
+}
+
+export interface AlertEvent {
+  ruleId: string;
+  accountName: string;
+  metric: AlertMetric;
+  value: number;
+  threshold: number;
+  firedAt: Date;
+  /** Human-readable summary, e.g. for chat notifications */
+  message: string;
+}
+
+export interface AlertOptions {
+  rules: AlertRule[];
+  notifiers: AlertNotifier[];
+  /** Called when a notifier throws; notifier failures never fail a usage fetch */
+  onNotifierError?: (error: Error, event: AlertEvent) => void;
+}
+
+export type AuditOperation =
+  | 'account.save'
+  | 'account.delete'
+  | 'account.rename'
+  | 'account.switch'
+  | 'account.update-metadata'
+  | 'account.sync'
+  | 'claude-code.activate'
+  | 'claude-code.restore'
+  | 'accounts.export'
+  | 'accounts.import'
+  | 'storage.rekey'
+  | 'storage.recover'
+  | 'token.refresh';
+
+/** One audit log record. Never contains credentials. */
+export interface AuditEntry {
+  at: Date;
+  operation: AuditOperation;
+  /** Account the operation applied to, or null for store-wide operations */
+  account: string | null;
+  outcome: 'success' | 'failure';
+  /** Non-secret context, e.g. the new name after a rename or the failure reason */
+  detail?: string;
+}
+
+export interface AuditQuery {
+  since?: Date;
+  until?: Date;
+  account?: string;
+  operation?: AuditOperation;
+  /** Only the most recent `limit` matching entries */
+  limit?: number;
+}
+
+// Persisted shapes — what an AccountStorage backend stores
 export interface SavedAccount {
   name: string;
   email?: string;
   accountType?: AccountType; // undefined treated as 'oauth' for backward compat
   credentials: string; // JSON string of ClaudeCredentials or AdminCredentials
   savedAt: string;     // ISO timestamp
+  tags?: string[];     // default []
+  note?: string;
+  color?: string;
+  enabled?: boolean;   // default true
+  profile?: SavedProfile;
 }
 
+export type SavedProfile = Omit<AccountProfile, 'fetchedAt'> & { fetchedAt: string };
+
 export interface AccountsData {
+  /** Bumped whenever the persisted shape changes; see storage/migrations.ts */
+  schemaVersion: number;
   accounts: SavedAccount[];
   activeAccountName: string | null;
 }
+
+// Internal — not exported from index.ts
+export interface ClaudeCredentials {
+  claudeAiOauth?: {
+    accessToken: string;
+    refreshToken: string;
+    expiresAt: string;
+    /** Written by Claude Code; kept across refreshes */
+    scopes?: string[];
+    subscriptionType?: string;
+  };
+}
+
+export interface AdminCredentials {
+  adminApiKey: string;
+}
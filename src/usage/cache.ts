@@ -0,0 +1,128 @@
+// src/usage/cache.ts — last successful usage snapshot per account
+import { readFile } from 'node:fs/promises';
+import { encrypt, decrypt, MACHINE_ID_ENCRYPTION } from '../storage/crypto.js';
+import { withFileLock } from '../storage/lock.js';
+import { writeFileAtomic } from '../storage/atomic.js';
+import type { AccountUsage, EncryptionOptions, LockOptions } from '../types.js';
+
+const CACHE_VERSION = 1;
+const DATE_KEYS = new Set(['resetsAt', 'periodStart', 'periodEnd', 'fetchedAt']);
+
+export interface CachedUsage {
+  fetchedAt: Date;
+  /** Admin accounts: the lookback start the snapshot was fetched for */
+  startingAt?: string;
+  usage: AccountUsage;
+}
+
+interface CacheFile {
+  version: number;
+  entries: Record<string, Omit<CachedUsage, 'fetchedAt'> & { fetchedAt: string }>;
+}
+
+function reviveDates(key: string, value: unknown): unknown {
+  return DATE_KEYS.has(key) && typeof value === 'string' ? new Date(value) : value;
+}
+
+/**
+ * Usage snapshots are kept in memory and, when a path is given, in an encrypted file shared
+ * between processes. The cache is disposable: an unreadable file (e.g. written under another key) is treated
+ * as empty and overwritten on the next write.
+ */
+export class UsageCache {
+  private readonly memory = new Map<string, CachedUsage>();
+
+  constructor(
+    private readonly filePath: string | null,
+    private encryption: EncryptionOptions = MACHINE_ID_ENCRYPTION,
+    private readonly lockOptions: LockOptions = {},
+  ) {}
+
+  private async readFileEntries(): Promise<Map<string, CachedUsage>> {
+    const entries = new Map<string, CachedUsage>();
+    if (!this.filePath) return entries;
+    try {
+      const raw = await readFile(this.filePath, 'utf8');
+      const file = JSON.parse(await decrypt(raw, this.encryption), reviveDates) as CacheFile;
+      if (file.version !== CACHE_VERSION) return entries;
+      for (const [name, entry] of Object.entries(file.entries)) {
+        entries.set(name, { ...entry, fetchedAt: new Date(entry.fetchedAt) });
+      }
+    } catch {
+      // Missing or unreadable — start over
+    }
+    return entries;
+  }
+
+  private async writeFileEntries(entries: Map<string, CachedUsage>): Promise<void> {
+    const file: CacheFile = { version: CACHE_VERSION, entries: {} };
+    for (const [name, entry] of entries) {
+      file.entries[name] = { ...entry, fetchedAt: entry.fetchedAt.toISOString() };
+    }
+    await writeFileAtomic(this.filePath!, await encrypt(JSON.stringify(file), this.encryption));
+  }
+
+  /** Applies `fn` to the shared entries under the file lock and mirrors the result in memory */
+  private async update(fn: (entries: Map<string, CachedUsage>) => void): Promise<void> {
+    if (!this.filePath) {
+      fn(this.memory);
+      return;
+    }
+    await withFileLock(`${this.filePath}.lock`, async () => {
+      const entries = await this.readFileEntries();
+      fn(entries);
+      await this.writeFileEntries(entries);
+      this.memory.clear();
+      for (const [name, entry] of entries) this.memory.set(name, entry);
+    }, this.lockOptions);
+  }
+
+  /** Snapshots for the given accounts, preferring whichever of memory and disk is newer */
+  async get(names: string[]): Promise<Map<string, CachedUsage>> {
+    const onDisk = await this.readFileEntries();
+    const result = new Map<string, CachedUsage>();
+    for (const name of names) {
+      const candidates = [this.memory.get(name), onDisk.get(name)].filter((e): e is CachedUsage => !!e);
+      const newest = candidates.sort((a, b) => b.fetchedAt.getTime() - a.fetchedAt.getTime())[0];
+      if (newest) result.set(name, newest);
+    }
+    return result;
+  }
+
+  /** Stores snapshots, never replacing a newer one written by another process */
+  async set(snapshots: Map<string, CachedUsage>): Promise<void> {
+    if (snapshots.size === 0) return;
+    await this.update(entries => {
+      for (const [name, snapshot] of snapshots) {
+        const existing = entries.get(name);
+        if (!existing || existing.fetchedAt <= snapshot.fetchedAt) entries.set(name, snapshot);
+      }
+    });
+  }
+
+  async rename(oldName: string, newName: string): Promise<void> {
+    await this.update(entries => {
+      const entry = entries.get(oldName);
+      entries.delete(oldName);
+      entries.delete(newName);
+      if (entry) entries.set(newName, { ...entry, usage: { ...entry.usage, accountName: newName } });
+    });
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.update(entries => { entries.delete(name); });
+  }
+
+  /** Re-encrypts the cache file under new key material */
+  async rekey(encryption: EncryptionOptions): Promise<void> {
+    if (!this.filePath) {
+      this.encryption = encryption;
+      return;
+    }
+    await withFileLock(`${this.filePath}.lock`, async () => {
+      const entries = await this.readFileEntries();
+      this.encryption = encryption;
+      await this.writeFileEntries(entries);
+    }, this.lockOptions);
+  }
+}
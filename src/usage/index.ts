@@ -1,6 +1,8 @@
 // src/usage/index.ts
-import type { OAuthAccountUsage } from '../types.js';
-import { AuthenticationError } from '../errors.js';
+import type { AccountProfile, OAuthAccountUsage, UsageWindow, UsageWindowDetail } from '../types.js';
+import { describeWindow } from './windows.js';
+import { errorForResponse, request, withBaseUrl, type RequestOptions } from '../http/index.js';
+import { boolean, nullable, number, object, optional, string, validateResponse, type Validator } from '../validation/index.js';
 
 // Re-export for backward compatibility
 export { AuthenticationError } from '../errors.js';
@@ -29,17 +31,19 @@ export interface UsageResponse {
   seven_day_cowork?: RawUsageWindow | null;
   iguana_necktie?: RawUsageWindow | null;
   extra_usage?: RawExtraUsage | null;
+  /** Windows added to the API after this version; picked up by shape */
+  [key: string]: RawUsageWindow | RawExtraUsage | null | undefined;
 }
 
 export interface ProfileResponse {
   account: {
     uuid: string;
-    full_name: string;
+    full_name?: string | null;
     display_name: string;
     email: string;
     has_claude_max: boolean;
     has_claude_pro: boolean;
-    created_at: string;
+    created_at?: string | null;
   };
   organization: {
     uuid: string;
@@ -49,10 +53,54 @@ export interface ProfileResponse {
     rate_limit_tier: string;
     has_extra_usage_enabled: boolean;
     subscription_status: string;
-    subscription_created_at: string;
+    subscription_created_at?: string | null;
   };
 }
 
+const rawWindow = object<RawUsageWindow>({ utilization: number, resets_at: nullable(string) });
+const optionalWindow = optional(nullable(rawWindow));
+
+// Windows outside this shape are passed through and picked up by transformWindows()
+const usageResponse = object<Pick<UsageResponse, 'five_hour' | 'seven_day' | 'seven_day_opus' | 'seven_day_sonnet' | 'seven_day_oauth_apps' | 'seven_day_cowork' | 'iguana_necktie' | 'extra_usage'>>({
+  five_hour: rawWindow,
+  seven_day: rawWindow,
+  seven_day_opus: optionalWindow,
+  seven_day_sonnet: optionalWindow,
+  seven_day_oauth_apps: optionalWindow,
+  seven_day_cowork: optionalWindow,
+  iguana_necktie: optionalWindow,
+  extra_usage: optional(nullable(object<RawExtraUsage>({
+    is_enabled: boolean,
+    monthly_limit: nullable(number),
+    used_credits: nullable(number),
+    utilization: nullable(number),
+  }))),
+}) as Validator<UsageResponse>;
+
+// Only fields transformProfile() and saveAccount() read are required; the rest may be absent or null
+const optionalString = optional(nullable(string));
+const profileResponse = object<ProfileResponse>({
+  account: object<ProfileResponse['account']>({
+    uuid: string,
+    full_name: optionalString,
+    display_name: string,
+    email: string,
+    has_claude_max: boolean,
+    has_claude_pro: boolean,
+    created_at: optionalString,
+  }),
+  organization: object<ProfileResponse['organization']>({
+    uuid: string,
+    name: string,
+    organization_type: string,
+    billing_type: string,
+    rate_limit_tier: string,
+    has_extra_usage_enabled: boolean,
+    subscription_status: string,
+    subscription_created_at: optionalString,
+  }),
+});
+
 function makeHeaders(token: string, betaVersion: string) {
   return {
     Authorization: `Bearer ${token}`,
@@ -63,39 +111,55 @@ function makeHeaders(token: string, betaVersion: string) {
 
 export async function fetchProfile(
   token: string,
-  betaVersion = 'oauth-2025-04-20'
+  betaVersion = 'oauth-2025-04-20',
+  options: RequestOptions = {},
 ): Promise<ProfileResponse> {
-  const response = await fetch(PROFILE_URL, {
+  const response = await request(withBaseUrl(PROFILE_URL, options.baseUrls?.api), {
     headers: makeHeaders(token, betaVersion),
-  });
+  }, options);
   if (!response.ok) {
-    if (response.status === 401) throw new AuthenticationError(401);
-    throw new Error(`API error: ${response.status} ${response.statusText}`);
+    throw errorForResponse(response, `API error: ${response.status} ${response.statusText}`);
   }
-  return response.json() as Promise<ProfileResponse>;
+  return validateResponse('/api/oauth/profile', profileResponse, await response.json(), options.validation);
 }
 
 export async function fetchUsage(
   token: string,
-  betaVersion = 'oauth-2025-04-20'
+  betaVersion = 'oauth-2025-04-20',
+  options: RequestOptions = {},
 ): Promise<UsageResponse> {
-  const response = await fetch(USAGE_URL, {
+  const response = await request(withBaseUrl(USAGE_URL, options.baseUrls?.api), {
     headers: makeHeaders(token, betaVersion),
-  });
+  }, options);
   if (!response.ok) {
-    if (response.status === 401) throw new AuthenticationError(401);
-    throw new Error(`API error: ${response.status} ${response.statusText}`);
+    throw errorForResponse(response, `API error: ${response.status} ${response.statusText}`);
   }
-  return response.json() as Promise<UsageResponse>;
+  return validateResponse('/api/oauth/usage', usageResponse, await response.json(), options.validation);
 }
 
-function transformWindow(w: RawUsageWindow | null | undefined) {
+function isRawWindow(value: unknown): value is RawUsageWindow {
+  return typeof value === 'object' && value !== null
+    && typeof (value as RawUsageWindow).utilization === 'number' && 'resets_at' in value;
+}
+
+function transformWindow(w: RawUsageWindow | null | undefined): UsageWindow | null {
   if (!w) return null;
   return { percent: w.utilization, resetsAt: w.resets_at ? new Date(w.resets_at) : null };
 }
 
+/** Every window in the response, keyed by API name; null windows are left out */
+export function transformWindows(data: UsageResponse): Record<string, UsageWindowDetail> {
+  const windows: Record<string, UsageWindowDetail> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (key === 'extra_usage' || !isRawWindow(value)) continue;
+    windows[key] = { ...transformWindow(value)!, ...describeWindow(key) };
+  }
+  return windows;
+}
+
 export function transformUsageData(data: UsageResponse): Omit<OAuthAccountUsage, 'accountType' | 'accountName' | 'email' | 'error'> {
   return {
+    windows: transformWindows(data),
     session: { percent: data.five_hour.utilization, resetsAt: data.five_hour.resets_at ? new Date(data.five_hour.resets_at) : null },
     weekly: { percent: data.seven_day.utilization, resetsAt: data.seven_day.resets_at ? new Date(data.seven_day.resets_at) : null },
     opus: transformWindow(data.seven_day_opus),
@@ -111,3 +175,21 @@ export function transformUsageData(data: UsageResponse): Omit<OAuthAccountUsage,
     },
   };
 }
+
+export function transformProfile(data: ProfileResponse, fetchedAt = new Date()): AccountProfile {
+  return {
+    plan: data.account.has_claude_max ? 'max' : data.account.has_claude_pro ? 'pro' : 'free',
+    accountUuid: data.account.uuid,
+    displayName: data.account.display_name,
+    organization: {
+      uuid: data.organization.uuid,
+      name: data.organization.name,
+      type: data.organization.organization_type,
+      billingType: data.organization.billing_type,
+      rateLimitTier: data.organization.rate_limit_tier,
+      subscriptionStatus: data.organization.subscription_status,
+      hasExtraUsageEnabled: data.organization.has_extra_usage_enabled,
+    },
+    fetchedAt,
+  };
+}
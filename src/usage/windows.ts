@@ -0,0 +1,32 @@
+// src/usage/windows.ts — rolling usage window metadata shared by usage parsing and forecasting
+import type { UsageWindowKind, UsageWindowName } from '../types.js';
+
+export const HOUR_MS = 60 * 60_000;
+const FIVE_HOURS_MS = 5 * HOUR_MS;
+const SEVEN_DAYS_MS = 7 * 24 * HOUR_MS;
+
+export interface WindowInfo {
+  kind: UsageWindowKind;
+  /** Rolling window length; absent when unknown */
+  durationMs?: number;
+}
+
+/** Windows this version knows, keyed by API name, with the typed usage field each maps to */
+export const KNOWN_WINDOWS: Record<string, WindowInfo & { name: UsageWindowName }> = {
+  five_hour: { name: 'session', kind: 'session', durationMs: FIVE_HOURS_MS },
+  seven_day: { name: 'weekly', kind: 'weekly', durationMs: SEVEN_DAYS_MS },
+  seven_day_opus: { name: 'opus', kind: 'model', durationMs: SEVEN_DAYS_MS },
+  seven_day_sonnet: { name: 'sonnet', kind: 'model', durationMs: SEVEN_DAYS_MS },
+  seven_day_oauth_apps: { name: 'oauthApps', kind: 'feature', durationMs: SEVEN_DAYS_MS },
+  seven_day_cowork: { name: 'cowork', kind: 'feature', durationMs: SEVEN_DAYS_MS },
+  iguana_necktie: { name: 'iguanaNecktie', kind: 'unknown' },
+};
+
+/** Kind and length of a window by API name; new windows are recognised by their name prefix */
+export function describeWindow(key: string): WindowInfo {
+  const known = KNOWN_WINDOWS[key];
+  if (known) return { kind: known.kind, ...(known.durationMs !== undefined ? { durationMs: known.durationMs } : {}) };
+  if (key.startsWith('five_hour')) return { kind: 'unknown', durationMs: FIVE_HOURS_MS };
+  if (key.startsWith('seven_day')) return { kind: 'unknown', durationMs: SEVEN_DAYS_MS };
+  return { kind: 'unknown' };
+}
@@ -0,0 +1,117 @@
+// src/validation/index.ts — minimal runtime validators for API response payloads
+import { ResponseSchemaError } from '../errors.js';
+import type { ResponseValidation } from '../types.js';
+
+const EXCERPT_LENGTH = 300;
+// String values under these keys can identify a person, organization or credential
+const SENSITIVE_KEY = /email|name|uuid|token|key|secret|_id$|^id$/i;
+
+class SchemaIssue extends Error {
+  constructor(readonly path: string, readonly expected: string, readonly actual: unknown) {
+    super(`expected ${expected}`);
+  }
+}
+
+interface Context {
+  mode: ResponseValidation;
+}
+
+/** Checks `value` at `path` and returns it typed, or throws a SchemaIssue */
+export type Validator<T> = (value: unknown, path: string, ctx: Context) => T;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) throw new SchemaIssue(path, type, value);
+    return value as T;
+  };
+}
+
+export const string: Validator<string> = primitive('string');
+export const number: Validator<number> = primitive('number');
+export const boolean: Validator<boolean> = primitive('boolean');
+
+export function nullable<T>(inner: Validator<T>): Validator<T | null> {
+  return (value, path, ctx) => (value === null ? null : inner(value, path, ctx));
+}
+
+/** Absent values pass; in lenient mode, malformed ones are dropped as if absent */
+export function optional<T>(inner: Validator<T>): Validator<T | undefined> {
+  return (value, path, ctx) => {
+    if (value === undefined) return undefined;
+    try {
+      return inner(value, path, ctx);
+    } catch (err) {
+      if (ctx.mode === 'lenient' && err instanceof SchemaIssue) return undefined;
+      throw err;
+    }
+  };
+}
+
+/** In lenient mode, malformed elements are dropped */
+export function array<T>(inner: Validator<T>): Validator<T[]> {
+  return (value, path, ctx) => {
+    if (!Array.isArray(value)) throw new SchemaIssue(path, 'array', value);
+    const items: T[] = [];
+    value.forEach((item, i) => {
+      try {
+        items.push(inner(item, `${path}[${i}]`, ctx));
+      } catch (err) {
+        if (ctx.mode !== 'lenient' || !(err instanceof SchemaIssue)) throw err;
+      }
+    });
+    return items;
+  };
+}
+
+/** Validates the listed keys; keys not in `shape` are passed through unchecked */
+export function object<T extends object>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path, ctx) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new SchemaIssue(path, 'object', value);
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, validate] of Object.entries(shape) as [string, Validator<unknown>][]) {
+      const checked = validate((value as Record<string, unknown>)[key], `${path}.${key}`, ctx);
+      if (checked === undefined) delete result[key];
+      else result[key] = checked;
+    }
+    return result as T;
+  };
+}
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (typeof value !== 'object' || value === null) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, v]) =>
+    [key, typeof v === 'string' && SENSITIVE_KEY.test(key) ? '[redacted]' : redact(v)]));
+}
+
+function valueAt(payload: unknown, path: string): unknown {
+  let current = payload;
+  for (const [, key, index] of path.matchAll(/\.([^.[]+)|\[(\d+)\]/g)) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key ?? Number(index)];
+  }
+  return current;
+}
+
+/** The object that holds the failing value, with identifying strings redacted and the JSON truncated */
+function excerpt(payload: unknown, path: string): string {
+  const parentPath = path.replace(/(\.[^.[]+|\[\d+\])$/, '');
+  const json = JSON.stringify(redact(valueAt(payload, parentPath))) ?? 'undefined';
+  return json.length > EXCERPT_LENGTH ? `${json.slice(0, EXCERPT_LENGTH)}…` : json;
+}
+
+/** Runs `validator` over a parsed response body, turning the first failure into a ResponseSchemaError */
+export function validateResponse<T>(endpoint: string, validator: Validator<T>, payload: unknown, mode: ResponseValidation = 'strict'): T {
+  try {
+    return validator(payload, '$', { mode });
+  } catch (err) {
+    if (!(err instanceof SchemaIssue)) throw err;
+    throw new ResponseSchemaError(endpoint, err.path, `${err.expected}, got ${describe(err.actual)}`, excerpt(payload, err.path));
+  }
+}
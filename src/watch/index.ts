@@ -0,0 +1,128 @@
+// src/watch/index.ts — change detection and adaptive scheduling for watchUsage()
+import { WINDOW_NAMES } from '../history/index.js';
+import type { AccountProfile, AccountUsage, UsageChangeEvent, UsageWindow, WatchUsageOptions } from '../types.js';
+
+export const DEFAULT_WATCH_INTERVAL_MS = 60_000;
+
+// A resetsAt moving by less than this is API jitter, not a rollover
+const RESET_JITTER_MS = 60_000;
+// Poll this long after a window's reset so the next fetch sees the new window
+const AFTER_RESET_MS = 2_000;
+
+function windowChanged(previous: UsageWindow | null, current: UsageWindow | null): boolean {
+  if (!previous || !current) return previous !== current;
+  return previous.percent !== current.percent;
+}
+
+function windowReset(previous: UsageWindow | null, current: UsageWindow | null): boolean {
+  if (!previous || !current) return false;
+  if (previous.resetsAt && current.resetsAt) {
+    return current.resetsAt.getTime() - previous.resetsAt.getTime() > RESET_JITTER_MS;
+  }
+  return current.percent < previous.percent;
+}
+
+function profileChanged(previous: AccountProfile, current: AccountProfile): boolean {
+  return previous.plan !== current.plan
+    || previous.organization.uuid !== current.organization.uuid
+    || previous.organization.rateLimitTier !== current.organization.rateLimitTier
+    || previous.organization.subscriptionStatus !== current.organization.subscriptionStatus;
+}
+
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/** Remembers the last result per account, turns new results into events and picks the next delay */
+export class UsageWatcher {
+  private readonly last = new Map<string, AccountUsage>();
+  private readonly lastError = new Map<string, string>();
+  private consecutiveFailures = 0;
+  private readonly intervalMs: number;
+  private readonly minIntervalMs: number;
+  private readonly maxIntervalMs: number;
+
+  constructor(options: Pick<WatchUsageOptions, 'intervalMs' | 'minIntervalMs' | 'maxIntervalMs'> = {}) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_WATCH_INTERVAL_MS;
+    this.minIntervalMs = options.minIntervalMs ?? this.intervalMs / 4;
+    this.maxIntervalMs = options.maxIntervalMs ?? this.intervalMs * 8;
+  }
+
+  update(usages: AccountUsage[], at: Date): UsageChangeEvent[] {
+    const events: UsageChangeEvent[] = [];
+    let failures = 0;
+    for (const usage of usages) {
+      const accountName = usage.accountName;
+      if (usage.error) {
+        failures++;
+        if (this.lastError.get(accountName) !== usage.error) {
+          this.lastError.set(accountName, usage.error);
+          events.push({ type: 'error', accountName, error: usage.error, ...(usage.errorInfo ? { errorInfo: usage.errorInfo } : {}), at });
+        }
+        continue;
+      }
+      this.lastError.delete(accountName);
+      const previous = this.last.get(accountName);
+      this.last.set(accountName, usage);
+      if (!previous || previous.accountType !== usage.accountType) {
+        events.push({ type: 'snapshot', accountName, usage, at });
+        continue;
+      }
+      if (previous.accountType === 'admin' && usage.accountType === 'admin') {
+        if (previous.estimatedCostCents !== usage.estimatedCostCents) {
+          events.push({ type: 'cost-change', accountName, previous: previous.estimatedCostCents, current: usage.estimatedCostCents, usage, at });
+        }
+        continue;
+      }
+      if (previous.accountType !== 'oauth' || usage.accountType !== 'oauth') continue;
+      if (previous.profile && usage.profile && profileChanged(previous.profile, usage.profile)) {
+        events.push({ type: 'profile-change', accountName, previous: previous.profile, current: usage.profile, usage, at });
+      }
+      for (const window of WINDOW_NAMES) {
+        const before = previous[window];
+        const after = usage[window];
+        if (windowReset(before, after)) {
+          events.push({ type: 'window-reset', accountName, window, previous: before!, current: after!, usage, at });
+        } else if (windowChanged(before, after)) {
+          events.push({ type: 'window-change', accountName, window, previous: before, current: after, usage, at });
+        }
+      }
+    }
+    this.consecutiveFailures = usages.length > 0 && failures === usages.length ? this.consecutiveFailures + 1 : 0;
+    return events;
+  }
+
+  /**
+   * Backs off exponentially while every account fails. Otherwise polls faster as a window nears
+   * 100% (2× from 75%, 4× from 90%) and wakes shortly after the nearest upcoming reset.
+   */
+  nextDelay(now: Date): number {
+    if (this.consecutiveFailures > 0) {
+      return Math.min(this.intervalMs * 2 ** this.consecutiveFailures, this.maxIntervalMs);
+    }
+    let delay = this.intervalMs;
+    for (const usage of this.last.values()) {
+      if (usage.accountType !== 'oauth') continue;
+      for (const name of WINDOW_NAMES) {
+        const window = usage[name];
+        if (!window) continue;
+        if (window.percent >= 90) delay = Math.min(delay, this.intervalMs / 4);
+        else if (window.percent >= 75) delay = Math.min(delay, this.intervalMs / 2);
+        if (window.resetsAt) {
+          const untilReset = window.resetsAt.getTime() - now.getTime() + AFTER_RESET_MS;
+          if (untilReset > 0) delay = Math.min(delay, untilReset);
+        }
+      }
+    }
+    return Math.max(delay, this.minIntervalMs);
+  }
+}
@@ -138,6 +138,21 @@ describe('fetchMessagesUsage', () => {
     }));
     await expect(fetchMessagesUsage('sk-ant-admin-test')).rejects.toThrow('Admin API error: 500 Server Error');
   });
+
+  it('validates results, dropping malformed ones in lenient mode', async () => {
+    const malformed = { ...makeResult(), output_tokens: null };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: [makeBucket('2026-02-15', [makeResult(), malformed])], has_more: false, next_page: null }),
+    }));
+    await expect(fetchMessagesUsage('sk-ant-admin-test')).rejects.toMatchObject({
+      name: 'ResponseSchemaError',
+      endpoint: '/v1/organizations/usage_report/messages',
+      path: '$.data[0].results[1].output_tokens',
+    });
+    const buckets = await fetchMessagesUsage('sk-ant-admin-test', undefined, { validation: 'lenient' });
+    expect(buckets[0].results).toHaveLength(1);
+  });
 });
 
 describe('transformMessagesUsage', () => {
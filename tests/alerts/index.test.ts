@@ -0,0 +1,82 @@
+// tests/alerts/index.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { AlertEngine, CallbackNotifier } from '../../src/alerts/index.js';
+import type { AlertEvent, OAuthAccountUsage } from '../../src/types.js';
+import { adminUsage, oauthUsage } from '../fixtures/usage.js';
+
+function oauth(accountName: string, session: number, opus: number | null = null, usedCredits: number | null = null): OAuthAccountUsage {
+  return oauthUsage(accountName, {
+    session: { percent: session, resetsAt: null },
+    opus: opus === null ? null : { percent: opus, resetsAt: null },
+    extraUsage: { isEnabled: usedCredits !== null, monthlyLimit: null, usedCredits, utilization: null },
+  });
+}
+
+function engineWithEvents(rules: ConstructorParameters<typeof AlertEngine>[0]['rules']) {
+  const events: AlertEvent[] = [];
+  const engine = new AlertEngine({ rules, notifiers: [new CallbackNotifier(e => { events.push(e); })] });
+  return { engine, events };
+}
+
+describe('AlertEngine', () => {
+  it('fires once per crossing and re-arms below the hysteresis band', async () => {
+    const { engine, events } = engineWithEvents([{ id: 'session-80', metric: 'session', threshold: 80, hysteresis: 10 }]);
+
+    await engine.evaluate([oauth('Work', 79)]);
+    await engine.evaluate([oauth('Work', 81)]);
+    await engine.evaluate([oauth('Work', 85)]);
+    await engine.evaluate([oauth('Work', 75)]); // within hysteresis — still firing
+    await engine.evaluate([oauth('Work', 82)]);
+    expect(events).toHaveLength(1);
+
+    await engine.evaluate([oauth('Work', 5)]);  // window reset
+    await engine.evaluate([oauth('Work', 90)]);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({ ruleId: 'session-80', accountName: 'Work', value: 81, threshold: 80 });
+    expect(events[0].message).toBe('Work: session at 81% (threshold 80%)');
+  });
+
+  it('tracks state per account', async () => {
+    const { engine, events } = engineWithEvents([{ id: 'opus-90', metric: 'opus', threshold: 90 }]);
+    await engine.evaluate([oauth('A', 0, 95), oauth('B', 0, 50)]);
+    await engine.evaluate([oauth('A', 0, 95), oauth('B', 0, 91)]);
+    expect(events.map(e => e.accountName)).toEqual(['A', 'B']);
+  });
+
+  it('watches extra-usage spend and admin cost', async () => {
+    const { engine, events } = engineWithEvents([
+      { id: 'extra', metric: 'extraUsageCredits', threshold: 20 },
+      { id: 'budget', metric: 'estimatedCostCents', threshold: 50_000 },
+    ]);
+    const returned = await engine.evaluate([oauth('Work', 0, null, 25.5), adminUsage('Org', { estimatedCostCents: 60_000 })]);
+    expect(returned).toEqual(events);
+    expect(events.map(e => e.message)).toEqual([
+      'Work: extraUsageCredits at $25.50 (threshold $20.00)',
+      'Org: estimatedCostCents at $600.00 (threshold $500.00)',
+    ]);
+  });
+
+  it('honors account filters and skips results with errors', async () => {
+    const { engine, events } = engineWithEvents([{ id: 'r', metric: 'session', threshold: 50, accounts: ['Work'] }]);
+    await engine.evaluate([oauth('Personal', 99), { ...oauth('Work', 99), error: 'offline' }]);
+    expect(events).toHaveLength(0);
+  });
+
+  it('reports notifier failures without throwing', async () => {
+    const onNotifierError = vi.fn();
+    const engine = new AlertEngine({
+      rules: [{ id: 'r', metric: 'session', threshold: 50 }],
+      notifiers: [new CallbackNotifier(() => { throw new Error('boom'); })],
+      onNotifierError,
+    });
+    await expect(engine.evaluate([oauth('Work', 60)])).resolves.toHaveLength(1);
+    expect(onNotifierError).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }), expect.objectContaining({ ruleId: 'r' }));
+  });
+
+  it('rejects duplicate rule ids', () => {
+    expect(() => new AlertEngine({
+      rules: [{ id: 'r', metric: 'session', threshold: 1 }, { id: 'r', metric: 'weekly', threshold: 1 }],
+      notifiers: [],
+    })).toThrow('Duplicate alert rule id');
+  });
+});
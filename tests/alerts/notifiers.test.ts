@@ -0,0 +1,79 @@
+// tests/alerts/notifiers.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileNotifier, CommandNotifier, WebhookNotifier } from '../../src/alerts/notifiers.js';
+import type { AlertEvent } from '../../src/types.js';
+
+const EVENT: AlertEvent = {
+  ruleId: 'session-80',
+  accountName: 'Work',
+  metric: 'session',
+  value: 81,
+  threshold: 80,
+  firedAt: new Date('2026-03-01T00:00:00Z'),
+  message: 'Work: session at 81% (threshold 80%)',
+};
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'claude-usage-notifier-test-'));
+});
+
+afterEach(async () => {
+  await rm(tmpDir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('FileNotifier', () => {
+  it('appends events as JSON lines', async () => {
+    const path = join(tmpDir, 'alerts', 'events.jsonl');
+    const notifier = new FileNotifier(path);
+    await notifier.notify(EVENT);
+    await notifier.notify(EVENT);
+    const lines = (await readFile(path, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toMatchObject({ ruleId: 'session-80', firedAt: '2026-03-01T00:00:00.000Z' });
+  });
+});
+
+describe('CommandNotifier', () => {
+  it('passes the event on stdin and in the environment', async () => {
+    const out = join(tmpDir, 'out.json');
+    const script = `let d='';process.stdin.on('data',c=>d+=c).on('end',()=>require('fs').writeFileSync(${JSON.stringify(out)},JSON.stringify({stdin:JSON.parse(d),message:process.env.CLAUDE_USAGE_ALERT_MESSAGE})))`;
+    await new CommandNotifier(process.execPath, ['-e', script]).notify(EVENT);
+    const written = JSON.parse(await readFile(out, 'utf8'));
+    expect(written.stdin.accountName).toBe('Work');
+    expect(written.message).toBe(EVENT.message);
+  });
+
+  it('rejects on a non-zero exit code', async () => {
+    await expect(new CommandNotifier(process.execPath, ['-e', 'process.exit(3)']).notify(EVENT)).rejects.toThrow('exited with code 3');
+  });
+
+  it('rejects when the command cannot be started', async () => {
+    await expect(new CommandNotifier(join(tmpDir, 'missing')).notify(EVENT)).rejects.toThrow('Failed to run alert command');
+  });
+});
+
+describe('WebhookNotifier', () => {
+  it('POSTs the event as JSON with extra headers', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal('fetch', fetchMock);
+    await new WebhookNotifier('https://hooks.example.com/x', { headers: { Authorization: 'Bearer t' } }).notify(EVENT);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/x');
+    expect(init.method).toBe('POST');
+    expect(init.headers).toMatchObject({ 'Content-Type': 'application/json', Authorization: 'Bearer t' });
+    expect(JSON.parse(init.body)).toMatchObject({ ruleId: 'session-80', value: 81 });
+  });
+
+  it('rejects on an error status', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 502 }));
+    await expect(new WebhookNotifier('https://hooks.example.com/x').notify(EVENT)).rejects.toThrow('responded 502');
+  });
+});
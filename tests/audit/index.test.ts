@@ -0,0 +1,93 @@
+// tests/audit/index.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, appendFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { AuditLog } from '../../src/audit/index.js';
+import { StorageKeyError } from '../../src/errors.js';
+import type { EncryptionOptions } from '../../src/types.js';
+
+const keyA = randomBytes(32);
+const keyB = randomBytes(32);
+const encA: EncryptionOptions = { mode: 'key-provider', getKey: () => keyA };
+const encB: EncryptionOptions = { mode: 'key-provider', getKey: () => keyB };
+
+let tmpDir: string;
+let logPath: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'claude-usage-audit-test-'));
+  logPath = join(tmpDir, 'audit.log.enc');
+});
+
+afterEach(async () => {
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('AuditLog', () => {
+  it('returns no entries before anything is written', async () => {
+    expect(await new AuditLog(logPath, encA).query()).toEqual([]);
+  });
+
+  it('appends entries and reads them back in order', async () => {
+    const log = new AuditLog(logPath, encA);
+    await log.append({ operation: 'account.save', account: 'Work', outcome: 'success' });
+    await log.append({ operation: 'account.rename', account: 'Work', outcome: 'success', detail: 'to "Job"' });
+
+    const entries = await new AuditLog(logPath, encA).query();
+    expect(entries.map(e => e.operation)).toEqual(['account.save', 'account.rename']);
+    expect(entries[1].detail).toBe('to "Job"');
+    expect(entries[0].at).toBeInstanceOf(Date);
+  });
+
+  it('stores nothing in plaintext', async () => {
+    const log = new AuditLog(logPath, encA);
+    await log.append({ operation: 'account.delete', account: 'SecretName', outcome: 'success' });
+    const raw = await readFile(logPath, 'utf8');
+    expect(raw).not.toContain('SecretName');
+    expect(raw).not.toContain('account.delete');
+  });
+
+  it('filters by time, account, operation and limit', async () => {
+    const log = new AuditLog(logPath, encA);
+    await log.append({ operation: 'account.save', account: 'A', outcome: 'success', at: new Date('2026-01-01T00:00:00Z') });
+    await log.append({ operation: 'account.save', account: 'B', outcome: 'success', at: new Date('2026-02-01T00:00:00Z') });
+    await log.append({ operation: 'account.switch', account: 'A', outcome: 'success', at: new Date('2026-03-01T00:00:00Z') });
+
+    expect((await log.query({ since: new Date('2026-01-15T00:00:00Z') })).map(e => e.account)).toEqual(['B', 'A']);
+    expect((await log.query({ until: new Date('2026-01-15T00:00:00Z') })).map(e => e.account)).toEqual(['A']);
+    expect((await log.query({ account: 'A' })).map(e => e.operation)).toEqual(['account.save', 'account.switch']);
+    expect((await log.query({ operation: 'account.switch' }))).toHaveLength(1);
+    expect((await log.query({ limit: 1 }))[0].operation).toBe('account.switch');
+  });
+
+  it('skips damaged lines', async () => {
+    const log = new AuditLog(logPath, encA);
+    await log.append({ operation: 'account.save', account: 'A', outcome: 'success' });
+    await appendFile(logPath, 'not-an-envelope\n');
+    await log.append({ operation: 'account.save', account: 'B', outcome: 'success' });
+    expect((await log.query()).map(e => e.account)).toEqual(['A', 'B']);
+  });
+
+  it('rejects the wrong key', async () => {
+    await new AuditLog(logPath, encA).append({ operation: 'account.save', account: 'A', outcome: 'success' });
+    await expect(new AuditLog(logPath, encB).query()).rejects.toThrow(StorageKeyError);
+  });
+
+  it('keeps existing entries readable after rekey', async () => {
+    const log = new AuditLog(logPath, encA);
+    await log.append({ operation: 'account.save', account: 'A', outcome: 'success' });
+    await log.rekey(encB);
+    await log.append({ operation: 'storage.rekey', account: null, outcome: 'success' });
+
+    expect((await new AuditLog(logPath, encB).query()).map(e => e.operation)).toEqual(['account.save', 'storage.rekey']);
+    await expect(new AuditLog(logPath, encA).query()).rejects.toThrow(StorageKeyError);
+  });
+
+  it('shares one data key between concurrent writers', async () => {
+    await Promise.all(['A', 'B', 'C'].map(name =>
+      new AuditLog(logPath, encA).append({ operation: 'account.save', account: name, outcome: 'success' })));
+    expect((await new AuditLog(logPath, encA).query()).map(e => e.account).sort()).toEqual(['A', 'B', 'C']);
+  });
+});
@@ -1,16 +1,21 @@
 // tests/client.test.ts
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { mkdtemp, rm } from 'node:fs/promises';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { ClaudeUsageClient } from '../src/client.js';
-import { AccountNotFoundError } from '../src/errors.js';
+import { MemoryAccountStorage } from '../src/storage/index.js';
+import { AccountNotFoundError, StorageError, StorageCorruptedError } from '../src/errors.js';
 import { createCredentialReader } from '../src/credentials/index.js';
 import { authorize } from '../src/auth/index.js';
+import { CallbackNotifier } from '../src/alerts/index.js';
+import { AuditLog } from '../src/audit/index.js';
+import { UsageCache } from '../src/usage/cache.js';
 
 // Mock credential reader
 vi.mock('../src/credentials/index.js', () => ({
   createCredentialReader: vi.fn(() => ({ read: vi.fn().mockResolvedValue(null) })),
+  credentialsFilePath: vi.fn(() => null),
 }));
 
 // Mock auth module (provide constants for tokens/index.ts)
@@ -30,7 +35,14 @@ vi.mock('../src/admin/index.js', async (importOriginal) => {
   };
 });
 
+// Pass-through fs mock so tests can make the credentials watcher fail
+vi.mock('node:fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs')>();
+  return { ...actual, watch: vi.fn(actual.watch) };
+});
+
 import { fetchMessagesUsage, fetchCostReport } from '../src/admin/index.js';
+import { watch, type FSWatcher } from 'node:fs';
 import { AuthenticationError } from '../src/errors.js';
 
 const MOCK_USAGE = {
@@ -51,6 +63,9 @@ const NEAR_EXPIRY = new Date(Date.now() + 2 * 60_000).toISOString();
 const NEAR_EXPIRED_CREDS = JSON.stringify({
   claudeAiOauth: { accessToken: 'tok', refreshToken: 'rt', expiresAt: NEAR_EXPIRY }
 });
+const FUTURE_CREDS_2 = JSON.stringify({
+  claudeAiOauth: { accessToken: 'tok2', refreshToken: 'rt2', expiresAt: FUTURE }
+});
 const NO_TOKEN_CREDS = JSON.stringify({
   claudeAiOauth: { expiresAt: FUTURE }
 });
@@ -159,6 +174,234 @@ describe('ClaudeUsageClient', () => {
     it('renameAccount throws for unknown account', async () => {
       await expect(makeClient().renameAccount('NoSuch', 'New')).rejects.toBeInstanceOf(AccountNotFoundError);
     });
+
+    it('uses a custom storage backend when provided', async () => {
+      const storage = new MemoryAccountStorage();
+      const client = new ClaudeUsageClient({ storage });
+      await client.saveAccount('Work', VALID_CREDS);
+      expect((await storage.load()).accounts[0].name).toBe('Work');
+      expect((await client.listAccounts())[0].name).toBe('Work');
+    });
+
+    it('rekey rejects storage backends without encryption', async () => {
+      const client = new ClaudeUsageClient({ storage: new MemoryAccountStorage() });
+      await expect(client.rekey({ mode: 'passphrase', passphrase: 'pw' })).rejects.toBeInstanceOf(StorageError);
+    });
+
+    it('rekey moves accounts to a passphrase-encrypted store', async () => {
+      const encryption = { mode: 'passphrase', passphrase: 'pw', kdf: { algorithm: 'pbkdf2', iterations: 1000 } } as const;
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.rekey(encryption);
+
+      const reopened = new ClaudeUsageClient({ storagePath: join(tmpDir, 'accounts.enc'), encryption });
+      const accounts = await reopened.listAccounts();
+      expect(accounts.map(a => a.name)).toEqual(['Work']);
+      await expect(makeClient().listAccounts()).rejects.toBeInstanceOf(StorageError);
+    });
+
+    it('rekey reports side records it could not re-encrypt', async () => {
+      const encryption = { mode: 'passphrase', passphrase: 'pw', kdf: { algorithm: 'pbkdf2', iterations: 1000 } } as const;
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.getAccountUsage('Work');
+      vi.spyOn(AuditLog.prototype, 'rekey').mockRejectedValue(new Error('disk full'));
+      const cacheRekey = vi.spyOn(UsageCache.prototype, 'rekey');
+
+      await expect(client.rekey(encryption)).rejects.toThrow('Accounts were re-encrypted, but not the audit log (disk full)');
+      expect(cacheRekey).toHaveBeenCalled();
+    });
+  });
+
+  describe('account metadata', () => {
+    it('updates metadata and exposes it on listAccounts', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.updateAccountMetadata('Work', { tags: ['billing', 'team-a'], note: 'Owner: Sam', color: '#3b82f6' });
+      const [account] = await client.listAccounts();
+      expect(account).toMatchObject({ tags: ['billing', 'team-a'], note: 'Owner: Sam', color: '#3b82f6', enabled: true });
+    });
+
+    it('throws AccountNotFoundError for unknown accounts', async () => {
+      await expect(makeClient().updateAccountMetadata('NoSuch', { enabled: false })).rejects.toBeInstanceOf(AccountNotFoundError);
+    });
+
+    it('filters listAccounts by tag', async () => {
+      const client = makeClient();
+      await client.saveAccount('A', VALID_CREDS);
+      await client.saveAccount('B', VALID_CREDS);
+      await client.updateAccountMetadata('A', { tags: ['team-a', 'prod'] });
+      await client.updateAccountMetadata('B', { tags: ['team-a'] });
+      expect((await client.listAccounts({ tags: ['team-a'] })).map(a => a.name)).toEqual(['A', 'B']);
+      expect((await client.listAccounts({ tags: ['team-a', 'prod'] })).map(a => a.name)).toEqual(['A']);
+    });
+
+    it('skips disabled accounts and filters by tag when fetching all usage', async () => {
+      const client = makeClient();
+      await client.saveAccount('A', VALID_CREDS);
+      await client.saveAccount('B', VALID_CREDS);
+      await client.saveAccount('C', VALID_CREDS);
+      await client.updateAccountMetadata('A', { enabled: false });
+      await client.updateAccountMetadata('C', { tags: ['team-c'] });
+
+      expect((await client.getAllAccountsUsage()).map(r => r.accountName)).toEqual(['B', 'C']);
+      expect((await client.getAllAccountsUsage({ tags: ['team-c'] })).map(r => r.accountName)).toEqual(['C']);
+      // Disabled accounts stay listed
+      expect((await client.listAccounts()).find(a => a.name === 'A')?.enabled).toBe(false);
+    });
+  });
+
+  describe('backups', () => {
+    it('recovers a corrupted store from backup', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.saveAccount('Personal', VALID_CREDS);
+      await writeFile(join(tmpDir, 'accounts.enc'), 'truncated', 'utf8');
+
+      await expect(client.listAccounts()).rejects.toBeInstanceOf(StorageCorruptedError);
+      expect((await client.listBackups())[0]).toMatchObject({ index: 1, valid: true, accountCount: 1 });
+      const result = await client.recoverStorage();
+      expect(result.restored).toBe(true);
+      expect((await client.listAccounts()).map(a => a.name)).toEqual(['Work']);
+    });
+
+    it('rejects backup operations on storage without backups', async () => {
+      const client = new ClaudeUsageClient({ storage: new MemoryAccountStorage() });
+      await expect(client.listBackups()).rejects.toBeInstanceOf(StorageError);
+      await expect(client.recoverStorage()).rejects.toBeInstanceOf(StorageError);
+    });
+  });
+
+  describe('audit log', () => {
+    it('records account mutations with their outcome', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.renameAccount('Work', 'Job');
+      await client.switchAccount('Job');
+      await expect(client.deleteAccount('Missing')).rejects.toBeInstanceOf(AccountNotFoundError);
+      await client.deleteAccount('Job');
+
+      const entries = await client.getAuditLog();
+      expect(entries.map(e => [e.operation, e.account, e.outcome])).toEqual([
+        ['account.save', 'Work', 'success'],
+        ['account.rename', 'Work', 'success'],
+        ['account.switch', 'Job', 'success'],
+        ['account.delete', 'Missing', 'failure'],
+        ['account.delete', 'Job', 'success'],
+      ]);
+      expect(entries[1].detail).toBe('to "Job"');
+    });
+
+    it('records silent token refreshes without secrets', async () => {
+      const client = makeClient();
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Err' }));
+      await client.saveAccount('Work', EXPIRED_CREDS);
+      vi.stubGlobal('fetch', vi.fn()
+        .mockResolvedValueOnce({ ok: true, json: async () => MOCK_REFRESH_RESPONSE })
+        .mockResolvedValueOnce({ ok: true, json: async () => MOCK_USAGE })
+      );
+      await client.getAccountUsage('Work');
+
+      const entries = await client.getAuditLog({ account: 'Work', operation: 'token.refresh' });
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ outcome: 'success', detail: 'expired' });
+      expect(JSON.stringify(await client.getAuditLog())).not.toContain('new-tok');
+    });
+
+    it('filters by time and account', async () => {
+      const client = makeClient();
+      await client.saveAccount('A', VALID_CREDS);
+      const since = new Date();
+      await client.saveAccount('B', VALID_CREDS);
+      await client.switchAccount('A');
+
+      expect((await client.getAuditLog({ since })).map(e => e.account)).toEqual(['B', 'A']);
+      expect((await client.getAuditLog({ since, account: 'A' })).map(e => e.operation)).toEqual(['account.switch']);
+    });
+
+    it('can be disabled', async () => {
+      const client = new ClaudeUsageClient({ storagePath: join(tmpDir, 'accounts.enc'), auditLog: false });
+      await client.saveAccount('Work', VALID_CREDS);
+      expect(await client.getAuditLog()).toEqual([]);
+    });
+
+    it('is only kept for custom storage when a path is given', async () => {
+      const plain = new ClaudeUsageClient({ storage: new MemoryAccountStorage() });
+      await plain.saveAccount('Work', VALID_CREDS);
+      expect(await plain.getAuditLog()).toEqual([]);
+
+      const audited = new ClaudeUsageClient({ storage: new MemoryAccountStorage(), auditLog: { path: join(tmpDir, 'audit.log.enc') } });
+      await audited.saveAccount('Work', VALID_CREDS);
+      expect(await audited.getAuditLog()).toHaveLength(1);
+    });
+  });
+
+  describe('export and import', () => {
+    const fastKdf = { algorithm: 'scrypt', cost: 1024 } as const;
+
+    async function makeSource() {
+      const source = makeClient();
+      await source.saveAccount('Work', VALID_CREDS);
+      vi.mocked(fetchMessagesUsage).mockResolvedValue([]);
+      await source.saveAdminAccount('Org', ADMIN_KEY);
+      return source;
+    }
+
+    it('round-trips accounts between stores, preserving metadata', async () => {
+      const source = await makeSource();
+      const bundle = await source.exportAccounts({ passphrase: 'pw', kdf: fastKdf });
+
+      const target = new ClaudeUsageClient({ storage: new MemoryAccountStorage() });
+      const result = await target.importAccounts(bundle, { passphrase: 'pw' });
+      expect(result.imported).toEqual(['Work', 'Org']);
+
+      const before = await source.listAccounts();
+      const after = await target.listAccounts();
+      expect(after.map(a => ({ ...a, isActive: false }))).toEqual(before.map(a => ({ ...a, isActive: false })));
+      expect(after.find(a => a.name === 'Org')?.accountType).toBe('admin');
+    });
+
+    it('exports only the named accounts', async () => {
+      const source = await makeSource();
+      const bundle = await source.exportAccounts({ names: ['Org'], passphrase: 'pw', kdf: fastKdf });
+      const target = new ClaudeUsageClient({ storage: new MemoryAccountStorage() });
+      await target.importAccounts(bundle, { passphrase: 'pw' });
+      expect((await target.listAccounts()).map(a => a.name)).toEqual(['Org']);
+    });
+
+    it('throws AccountNotFoundError for unknown names', async () => {
+      const source = await makeSource();
+      await expect(source.exportAccounts({ names: ['Nope'], passphrase: 'pw' })).rejects.toBeInstanceOf(AccountNotFoundError);
+    });
+
+    it('never contains plaintext credentials', async () => {
+      const source = await makeSource();
+      const bundle = await source.exportAccounts({ passphrase: 'pw', kdf: fastKdf });
+      const decoded = Buffer.from(bundle, 'base64').toString('latin1');
+      expect(bundle + decoded).not.toContain(ADMIN_KEY);
+      expect(bundle + decoded).not.toContain('accessToken');
+    });
+
+    it('rejects the wrong passphrase', async () => {
+      const source = await makeSource();
+      const bundle = await source.exportAccounts({ passphrase: 'pw', kdf: fastKdf });
+      const target = new ClaudeUsageClient({ storage: new MemoryAccountStorage() });
+      await expect(target.importAccounts(bundle, { passphrase: 'wrong' })).rejects.toBeInstanceOf(StorageError);
+      expect(await target.listAccounts()).toEqual([]);
+    });
+
+    it('applies the conflict strategy', async () => {
+      const source = await makeSource();
+      const bundle = await source.exportAccounts({ names: ['Work'], passphrase: 'pw', kdf: fastKdf });
+      const target = new ClaudeUsageClient({ storage: new MemoryAccountStorage() });
+      await target.saveAccount('Work', EXPIRED_CREDS);
+
+      expect((await target.importAccounts(bundle, { passphrase: 'pw' })).skipped).toEqual(['Work']);
+      expect((await target.importAccounts(bundle, { passphrase: 'pw', onConflict: 'rename' })).renamed)
+        .toEqual([{ from: 'Work', to: 'Work (2)' }]);
+      await target.importAccounts(bundle, { passphrase: 'pw', onConflict: 'overwrite' });
+      expect((await target.listAccounts()).map(a => a.name)).toEqual(['Work', 'Work (2)']);
+    });
   });
 
   describe('getAllAccountsUsage', () => {
@@ -186,6 +429,343 @@ describe('ClaudeUsageClient', () => {
     });
   });
 
+  describe('retries', () => {
+    async function clientWithAccounts(names: string[]) {
+      const client = new ClaudeUsageClient({ storagePath: join(tmpDir, 'accounts.enc'), retry: { baseDelayMs: 1, budget: 1 } });
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: async () => MOCK_PROFILE }));
+      for (const name of names) await client.saveAccount(name, VALID_CREDS);
+      return client;
+    }
+
+    it('recovers from a transient 429', async () => {
+      const client = await clientWithAccounts(['Work']);
+      vi.stubGlobal('fetch', vi.fn()
+        .mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests', headers: new Headers({ 'Retry-After': '0' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => MOCK_USAGE }));
+      const result = await client.getAccountUsage('Work');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('shares one retry budget across all accounts of a call', async () => {
+      const client = await clientWithAccounts(['A', 'B']);
+      const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 503, statusText: 'Unavailable' });
+      vi.stubGlobal('fetch', fetchMock);
+      const results = await client.getAllAccountsUsage();
+      expect(results.map(r => r.error)).toEqual(['API error: 503 Unavailable', 'API error: 503 Unavailable']);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('transport', () => {
+    it('routes every request through the injected fetch and base URLs', async () => {
+      const fetchImpl = vi.fn().mockImplementation(async (url: string) => new Response(JSON.stringify(
+        url.endsWith('/profile') ? MOCK_PROFILE : url.endsWith('/oauth/token') ? MOCK_REFRESH_RESPONSE : MOCK_USAGE,
+      )));
+      const client = new ClaudeUsageClient({
+        storagePath: join(tmpDir, 'accounts.enc'),
+        fetch: fetchImpl,
+        baseUrls: { api: 'http://localhost:8080', oauth: 'http://localhost:8081/' },
+      });
+      await client.saveAccount('Work', EXPIRED_CREDS);
+      const result = await client.getAccountUsage('Work');
+
+      expect(result.error).toBeUndefined();
+      expect(fetchImpl.mock.calls.map(([url]) => url)).toEqual([
+        'http://localhost:8080/api/oauth/profile',
+        'http://localhost:8081/v1/oauth/token',
+        'http://localhost:8080/api/oauth/usage',
+      ]);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('token refresh coordination', () => {
+    function slowTokenEndpoint() {
+      return vi.fn().mockImplementation(async (url: string) => {
+        if (!url.endsWith('/oauth/token')) return new Response(JSON.stringify(url.endsWith('/profile') ? MOCK_PROFILE : MOCK_USAGE));
+        await new Promise(resolve => setTimeout(resolve, 50));
+        return new Response(JSON.stringify(MOCK_REFRESH_RESPONSE));
+      });
+    }
+    const tokenCalls = (fetchImpl: ReturnType<typeof vi.fn>) =>
+      fetchImpl.mock.calls.filter(([url]) => String(url).endsWith('/oauth/token')).length;
+
+    it('shares one refresh between concurrent calls', async () => {
+      const fetchImpl = slowTokenEndpoint();
+      const client = new ClaudeUsageClient({ storagePath: join(tmpDir, 'accounts.enc'), fetch: fetchImpl });
+      await client.saveAccount('Work', EXPIRED_CREDS);
+
+      const results = await Promise.all([client.getAccountUsage('Work'), client.getAccountUsage('Work')]);
+      expect(results.map(r => r.error)).toEqual([undefined, undefined]);
+      expect(tokenCalls(fetchImpl)).toBe(1);
+    });
+
+    it('reuses tokens another client refreshed while it waited for the lock', async () => {
+      const fetchImpl = slowTokenEndpoint();
+      const options = { storagePath: join(tmpDir, 'accounts.enc'), fetch: fetchImpl };
+      await new ClaudeUsageClient(options).saveAccount('Work', EXPIRED_CREDS);
+
+      const results = await Promise.all([
+        new ClaudeUsageClient(options).getAccountUsage('Work'),
+        new ClaudeUsageClient(options).getAccountUsage('Work'),
+      ]);
+      expect(results.map(r => r.error)).toEqual([undefined, undefined]);
+      expect(tokenCalls(fetchImpl)).toBe(1);
+      const usageAuth = fetchImpl.mock.calls
+        .filter(([url]) => String(url).endsWith('/oauth/usage'))
+        .map(([, init]) => (init as RequestInit).headers as Record<string, string>);
+      expect(usageAuth.map(h => h.Authorization)).toEqual(['Bearer new-tok', 'Bearer new-tok']);
+    });
+  });
+
+  describe('usage cache', () => {
+    const outage = () => vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('ECONNREFUSED')));
+
+    it('marks fresh results with fetchedAt', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      const result = await client.getAccountUsage('Work');
+      expect(result.fetchedAt).toBeInstanceOf(Date);
+      expect(result.stale).toBe(false);
+    });
+
+    it('returns an error result during an outage by default', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.getAccountUsage('Work');
+      outage();
+      const result = await client.getAccountUsage('Work');
+      expect(result.error).toBe('ECONNREFUSED');
+      expect(result.errorInfo).toMatchObject({ code: 'network_error', retryable: true, statusCode: null });
+      expect(result.stale).toBeUndefined();
+    });
+
+    it('serves the last-known snapshot on error with stale-while-error', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      const fresh = await client.getAccountUsage('Work');
+      outage();
+
+      // A new client reads the snapshot persisted next to the accounts file
+      const result = await makeClient().getAccountUsage('Work', { cache: 'stale-while-error' });
+      expect(result).toMatchObject({ stale: true, error: 'ECONNREFUSED', fetchedAt: fresh.fetchedAt });
+      if (result.accountType === 'oauth') expect(result.session.percent).toBe(0.5);
+    });
+
+    it('ignores snapshots older than maxAgeMs as a fallback', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.getAccountUsage('Work');
+      outage();
+      const result = await client.getAccountUsage('Work', { cache: 'stale-while-error', maxAgeMs: -1 });
+      expect(result.stale).toBeUndefined();
+      expect(result.error).toBe('ECONNREFUSED');
+    });
+
+    it('skips the network for recent snapshots with cache-first', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.getAllAccountsUsage();
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => MOCK_USAGE });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const [cached] = await client.getAllAccountsUsage({ cache: 'cache-first' });
+      expect(cached.stale).toBe(false);
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      await client.getAllAccountsUsage({ cache: 'cache-first', maxAgeMs: -1 });
+      expect(fetchMock).toHaveBeenCalled();
+    });
+
+    it('forgets snapshots of deleted accounts', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.getAccountUsage('Work');
+      await client.deleteAccount('Work');
+      await client.saveAccount('Work', VALID_CREDS);
+      outage();
+      expect((await client.getAccountUsage('Work', { cache: 'stale-while-error' })).stale).toBeUndefined();
+    });
+  });
+
+  describe('usage history', () => {
+    it('records each fetched snapshot when enabled', async () => {
+      const client = new ClaudeUsageClient({ storagePath: join(tmpDir, 'accounts.enc'), history: {} });
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.getAccountUsage('Work');
+      await client.getAllAccountsUsage();
+
+      const history = await client.getUsageHistory('Work');
+      expect(history.session?.map(s => s.percent)).toEqual([0.5, 0.5]);
+      expect(history.weekly).toHaveLength(2);
+      expect((await client.getUsageHistory('Work', { window: 'weekly' })).session).toBeUndefined();
+    });
+
+    it('requires an explicit path with a custom storage backend', async () => {
+      expect(() => new ClaudeUsageClient({ storage: new MemoryAccountStorage(), history: {} }))
+        .toThrow('history.path is required');
+
+      const path = join(tmpDir, 'history.jsonl');
+      const client = new ClaudeUsageClient({ storage: new MemoryAccountStorage(), history: { path, format: 'jsonl' } });
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.getAccountUsage('Work');
+      expect(await readFile(path, 'utf8')).toContain('"Work"');
+    });
+
+    it('does not record failed fetches or cached results', async () => {
+      const client = new ClaudeUsageClient({ storagePath: join(tmpDir, 'accounts.enc'), history: { format: 'jsonl' } });
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.getAccountUsage('Work');
+      await client.getAccountUsage('Work', { cache: 'cache-first' });
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+      await client.getAccountUsage('Work');
+
+      expect((await client.getUsageHistory('Work')).session).toHaveLength(1);
+    });
+
+    it('requires the history option', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await expect(client.getUsageHistory('Work')).rejects.toBeInstanceOf(StorageError);
+    });
+
+    it('throws for unknown accounts', async () => {
+      const client = new ClaudeUsageClient({ storagePath: join(tmpDir, 'accounts.enc'), history: {} });
+      await expect(client.getUsageHistory('Missing')).rejects.toBeInstanceOf(AccountNotFoundError);
+    });
+  });
+
+  describe('forecastUsage', () => {
+    it('forecasts windows with a reset time', async () => {
+      const resetsAt = new Date(Date.now() + 3 * 3600_000).toISOString();
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ five_hour: { utilization: 40, resets_at: resetsAt }, seven_day: { utilization: 5, resets_at: null } }),
+      }));
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+
+      const forecast = await client.forecastUsage('Work');
+      expect(forecast.windows.session).toMatchObject({ basis: 'window-average', paceStatus: 'on-track' });
+      expect(forecast.windows.session!.burnRatePerHour).toBeCloseTo(20, 0);
+      expect(forecast.windows.weekly).toMatchObject({ burnRatePerHour: null, paceStatus: 'unknown' });
+      expect(forecast.windows.opus).toBeUndefined();
+    });
+
+    it('returns the fetch error instead of a forecast', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+      expect(await client.forecastUsage('Work')).toMatchObject({ windows: {}, error: 'offline' });
+    });
+
+    it('rejects admin accounts', async () => {
+      const client = makeClient();
+      await client.saveAdminAccount('Org', ADMIN_KEY);
+      await expect(client.forecastUsage('Org')).rejects.toThrow('admin account');
+    });
+  });
+
+  describe('checkHealth', () => {
+    it('reports the last success and the last error code per account', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.getAccountUsage('Work');
+
+      let [health] = await client.checkHealth();
+      expect(health).toMatchObject({ accountName: 'Work', severity: 'ok', refreshable: true, lastErrorCode: null });
+      expect(health.lastSuccessAt).toBeInstanceOf(Date);
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }));
+      await client.getAccountUsage('Work');
+      [health] = await client.checkHealth();
+      expect(health).toMatchObject({ severity: 'warning', lastErrorCode: 'api_error' });
+    });
+
+    it('probes admin keys', async () => {
+      const client = makeClient();
+      await client.saveAdminAccount('Org', ADMIN_KEY);
+      expect((await client.checkHealth())[0].authenticated).toBe(true);
+
+      vi.mocked(fetchCostReport).mockRejectedValue(new AuthenticationError(401));
+      const [health] = await client.checkHealth();
+      expect(health).toMatchObject({ severity: 'critical', authenticated: false, lastErrorCode: 'authentication_failed' });
+      expect((await client.checkHealth({ probeAdminKeys: false }))[0].authenticated).toBeNull();
+    });
+  });
+
+  describe('alerts', () => {
+    it('evaluates rules against fetched usage', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ five_hour: { utilization: 85, resets_at: null }, seven_day: { utilization: 10, resets_at: null } }),
+      }));
+      const events: string[] = [];
+      const client = new ClaudeUsageClient({
+        storagePath: join(tmpDir, 'accounts.enc'),
+        alerts: {
+          rules: [{ id: 'session-80', metric: 'session', threshold: 80 }],
+          notifiers: [new CallbackNotifier(e => { events.push(e.message); })],
+        },
+      });
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.getAllAccountsUsage();
+      await client.getAccountUsage('Work');
+      expect(events).toEqual(['Work: session at 85% (threshold 80%)']);
+    });
+  });
+
+  describe('watchUsage', () => {
+    it('yields snapshots, then changes, until aborted', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.saveAccount('Other', VALID_CREDS);
+      let percent = 10;
+      vi.stubGlobal('fetch', vi.fn().mockImplementation(async (url: string) => ({
+        ok: true,
+        json: async () => url.endsWith('/profile')
+          ? MOCK_PROFILE
+          : { five_hour: { utilization: percent++, resets_at: null }, seven_day: { utilization: 1, resets_at: null } },
+      })));
+
+      const controller = new AbortController();
+      const events = [];
+      for await (const event of client.watchUsage({ intervalMs: 20, accounts: ['Work'], signal: controller.signal })) {
+        events.push(event);
+        if (events.length === 2) controller.abort();
+      }
+      expect(events.map(e => e.type)).toEqual(['snapshot', 'window-change']);
+      expect(events.every(e => e.accountName === 'Work')).toBe(true);
+      expect(events[1]).toMatchObject({ window: 'session', previous: { percent: 10 }, current: { percent: 11 } });
+    });
+
+    it('cancels the poll in flight when aborted', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      // A slow endpoint that only gives up when its request is aborted
+      vi.stubGlobal('fetch', vi.fn().mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+      })));
+
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 100);
+      const started = Date.now();
+      const events = [];
+      for await (const event of client.watchUsage({ signal: controller.signal })) events.push(event);
+      expect(events).toEqual([]);
+      expect(Date.now() - started).toBeLessThan(2000);
+    });
+
+    it('stops cleanly when the consumer breaks', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      for await (const event of client.watchUsage({ intervalMs: 20 })) {
+        expect(event.type).toBe('snapshot');
+        break;
+      }
+    });
+  });
+
   describe('getAccountUsage', () => {
     it('fetches usage for named account', async () => {
       const client = makeClient();
@@ -202,6 +782,158 @@ describe('ClaudeUsageClient', () => {
     });
   });
 
+  describe('syncFromSystem', () => {
+    const LATER = new Date(Date.now() + 8 * 3600_000).toISOString();
+    const ROTATED_CREDS = JSON.stringify({ claudeAiOauth: { accessToken: 'rotated', refreshToken: 'rt2', expiresAt: LATER } });
+    const profileFetch = (profile = MOCK_PROFILE) => vi.fn().mockImplementation(async (url: string) =>
+      new Response(JSON.stringify(url.endsWith('/profile') ? profile : MOCK_USAGE)));
+    const systemCredentials = (creds: string | null) =>
+      vi.mocked(createCredentialReader).mockReturnValue({ read: vi.fn().mockResolvedValue(creds) });
+    const storedCredentials = async (storage: MemoryAccountStorage, name: string) =>
+      (await storage.load()).accounts.find(a => a.name === name)?.credentials;
+
+    it('updates the saved account with the same profile uuid', async () => {
+      const storage = new MemoryAccountStorage();
+      const client = new ClaudeUsageClient({ storage, fetch: profileFetch() });
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.saveAccount('Other', VALID_CREDS);
+      await storage.updateAccountProfile('Other', { ...(await storage.load()).accounts[1].profile!, accountUuid: 'u2' });
+      systemCredentials(ROTATED_CREDS);
+
+      expect(await client.syncFromSystem()).toMatchObject({ status: 'updated', accountName: 'Work' });
+      expect(await storedCredentials(storage, 'Work')).toBe(ROTATED_CREDS);
+      expect(await storedCredentials(storage, 'Other')).toBe(VALID_CREDS);
+    });
+
+    it('falls back to matching by email', async () => {
+      const storage = new MemoryAccountStorage();
+      await storage.saveAccount('Work', VALID_CREDS, 'Test@Example.com', 'oauth');
+      systemCredentials(ROTATED_CREDS);
+      const result = await new ClaudeUsageClient({ storage, fetch: profileFetch() }).syncFromSystem();
+      expect(result).toMatchObject({ status: 'updated', accountName: 'Work' });
+    });
+
+    it('keeps saved credentials that are newer than the system ones', async () => {
+      const storage = new MemoryAccountStorage();
+      const client = new ClaudeUsageClient({ storage, fetch: profileFetch() });
+      await client.saveAccount('Work', ROTATED_CREDS);
+      systemCredentials(VALID_CREDS);
+      expect(await client.syncFromSystem()).toMatchObject({ status: 'unchanged', accountName: 'Work' });
+      expect(await storedCredentials(storage, 'Work')).toBe(ROTATED_CREDS);
+    });
+
+    it('reports missing credentials and unknown accounts', async () => {
+      const client = new ClaudeUsageClient({ storage: new MemoryAccountStorage(), fetch: profileFetch() });
+      systemCredentials(null);
+      expect((await client.syncFromSystem()).status).toBe('no-credentials');
+      systemCredentials(ROTATED_CREDS);
+      expect(await client.syncFromSystem()).toMatchObject({ status: 'no-match', accountName: null });
+    });
+
+    it('re-syncs when the credentials file changes', async () => {
+      const storage = new MemoryAccountStorage();
+      const client = new ClaudeUsageClient({ storage, fetch: profileFetch() });
+      await client.saveAccount('Work', VALID_CREDS);
+      const path = join(tmpDir, '.credentials.json');
+      const controller = new AbortController();
+      const events = client.watchSystemCredentials({ path, debounceMs: 10, signal: controller.signal });
+
+      const next = events.next();
+      await writeFile(path, ROTATED_CREDS);
+      expect((await next).value).toMatchObject({ status: 'updated', accountName: 'Work' });
+      expect(await storedCredentials(storage, 'Work')).toBe(ROTATED_CREDS);
+
+      controller.abort();
+      expect((await events.next()).done).toBe(true);
+    });
+
+    it('throws a clear error when the credentials directory does not exist', async () => {
+      const client = new ClaudeUsageClient({ storage: new MemoryAccountStorage() });
+      const events = client.watchSystemCredentials({ path: join(tmpDir, 'missing', '.credentials.json') });
+      await expect(events.next()).rejects.toThrow(/directory .*missing does not exist/);
+    });
+
+    it('ends the iteration when the watcher fails', async () => {
+      const actual = await vi.importActual<typeof import('node:fs')>('node:fs');
+      let watcher: FSWatcher | undefined;
+      vi.mocked(watch).mockImplementationOnce(((...args: Parameters<typeof watch>) =>
+        (watcher = actual.watch(...args))) as typeof watch);
+      const client = new ClaudeUsageClient({ storage: new MemoryAccountStorage() });
+      const events = client.watchSystemCredentials({ path: join(tmpDir, '.credentials.json'), debounceMs: 10 });
+
+      const next = events.next();
+      await vi.waitFor(() => expect(watcher).toBeDefined());
+      watcher!.emit('error', new Error('EMFILE: too many open files'));
+      await expect(next).rejects.toThrow('Watching');
+      expect((await events.next()).done).toBe(true);
+    });
+  });
+
+  describe('activateForClaudeCode', () => {
+    it('writes the account credentials for Claude Code and marks it active', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+      await client.saveAccount('Personal', FUTURE_CREDS_2);
+      const path = join(tmpDir, '.credentials.json');
+      const original = JSON.stringify({ claudeAiOauth: { accessToken: 'own', expiresAt: Date.now() + 3600_000 } });
+      await writeFile(path, original);
+      await client.activateForClaudeCode('Work', { path });
+      await client.activateForClaudeCode('Personal', { path });
+
+      expect(JSON.parse(await readFile(path, 'utf8')).claudeAiOauth.accessToken).toBe('tok2');
+      expect((await client.listAccounts()).find(a => a.isActive)?.name).toBe('Personal');
+
+      expect(await client.restoreClaudeCodeCredentials({ path })).toBe(true);
+      expect(await readFile(path, 'utf8')).toBe(original);
+    });
+
+    it('writes tokens it refreshes for the activated account back to Claude Code', async () => {
+      const fetchImpl = vi.fn().mockImplementation(async (url: string) => new Response(JSON.stringify(
+        url.endsWith('/profile') ? MOCK_PROFILE : url.endsWith('/oauth/token') ? MOCK_REFRESH_RESPONSE : MOCK_USAGE,
+      )));
+      const client = new ClaudeUsageClient({ storagePath: join(tmpDir, 'accounts.enc'), fetch: fetchImpl });
+      await client.saveAccount('Work', EXPIRED_CREDS);
+      await client.saveAccount('Personal', FUTURE_CREDS_2);
+      const path = join(tmpDir, '.credentials.json');
+      await client.activateForClaudeCode('Work', { path });
+
+      expect((await client.getAccountUsage('Work')).error).toBeUndefined();
+      expect(JSON.parse(await readFile(path, 'utf8')).claudeAiOauth).toMatchObject({ accessToken: 'new-tok', refreshToken: 'new-rt' });
+
+      // Refreshing an account Claude Code is not logged in to leaves the file alone
+      await client.activateForClaudeCode('Personal', { path });
+      await client.saveAccount('Work', EXPIRED_CREDS);
+      await client.getAccountUsage('Work');
+      expect(JSON.parse(await readFile(path, 'utf8')).claudeAiOauth.accessToken).toBe('tok2');
+    });
+
+    it('keeps Claude Code\'s scopes when activating a refreshed account', async () => {
+      const fetchImpl = vi.fn().mockImplementation(async (url: string) => new Response(JSON.stringify(
+        url.endsWith('/profile') ? MOCK_PROFILE : url.endsWith('/oauth/token') ? MOCK_REFRESH_RESPONSE : MOCK_USAGE,
+      )));
+      const client = new ClaudeUsageClient({ storagePath: join(tmpDir, 'accounts.enc'), fetch: fetchImpl });
+      const oauth = JSON.parse(EXPIRED_CREDS).claudeAiOauth;
+      await client.saveAccount('Work', JSON.stringify({ claudeAiOauth: { ...oauth, scopes: ['user:inference', 'user:profile'], subscriptionType: 'pro' } }));
+      expect((await client.getAccountUsage('Work')).error).toBeUndefined();
+
+      const path = join(tmpDir, '.credentials.json');
+      await client.activateForClaudeCode('Work', { path });
+      expect(JSON.parse(await readFile(path, 'utf8')).claudeAiOauth).toMatchObject({
+        accessToken: 'new-tok',
+        scopes: ['user:inference', 'user:profile'],
+        subscriptionType: 'pro',
+      });
+    });
+
+    it('rejects unknown and admin accounts', async () => {
+      const client = makeClient();
+      await client.saveAdminAccount('Org', ADMIN_KEY);
+      const path = join(tmpDir, '.credentials.json');
+      await expect(client.activateForClaudeCode('Missing', { path })).rejects.toThrow(AccountNotFoundError);
+      await expect(client.activateForClaudeCode('Org', { path })).rejects.toThrow('admin account');
+    });
+  });
+
   describe('getSystemToken', () => {
     it('returns access token from system credentials', async () => {
       vi.mocked(createCredentialReader).mockReturnValue({
@@ -274,6 +1006,37 @@ describe('ClaudeUsageClient', () => {
       await client.saveAccount('Work', VALID_CREDS);
       const accounts = await client.listAccounts();
       expect(accounts[0].email).toBe('test@example.com');
+      expect(accounts[0].profile).toMatchObject({ plan: 'pro', organization: { uuid: 'o1', rateLimitTier: 'tier1' } });
+      expect(accounts[0].profile?.fetchedAt).toBeInstanceOf(Date);
+      // Credentials and profile go in one write, so the only backup is the state before the save
+      await client.saveAccount('Work', VALID_CREDS);
+      expect(await client.listBackups()).toHaveLength(1);
+    });
+
+    it('includes the stored profile in usage results without re-fetching it', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: async () => MOCK_PROFILE }));
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => MOCK_USAGE });
+      vi.stubGlobal('fetch', fetchMock);
+      const result = await client.getAccountUsage('Work');
+      expect(result.accountType === 'oauth' && result.profile?.plan).toBe('pro');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('fetches a missing profile alongside usage and stores it', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Err' }));
+      const client = makeClient();
+      await client.saveAccount('Work', VALID_CREDS);
+
+      vi.stubGlobal('fetch', vi.fn().mockImplementation(async (url: string) => ({
+        ok: true,
+        json: async () => url.endsWith('/profile') ? MOCK_PROFILE : MOCK_USAGE,
+      })));
+      const result = await client.getAccountUsage('Work');
+      expect(result.accountType === 'oauth' && result.profile?.organization.name).toBe('Org');
+      expect((await client.listAccounts())[0].profile?.plan).toBe('pro');
     });
 
     it('saves without email when profile fetch fails', async () => {
@@ -311,6 +1074,19 @@ describe('ClaudeUsageClient', () => {
       vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 401 }));
       const result = await client.getAccountUsage('Work');
       expect(result.error).toBe('Token expired — refresh failed');
+      expect(result.errorInfo).toMatchObject({ code: 'token_expired', retryable: false, statusCode: null });
+    });
+
+    it('keeps the network cause when an expired token cannot be refreshed', async () => {
+      const client = makeClient();
+      await client.saveAccount('Work', EXPIRED_CREDS);
+
+      const dnsFailure = Object.assign(new TypeError('fetch failed'), { cause: { code: 'EAI_AGAIN' } });
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(dnsFailure));
+      const result = await client.getAccountUsage('Work');
+      expect(result.error).toBe('Token expired — refresh failed');
+      expect(result.errorInfo).toMatchObject({ code: 'network_error', retryable: true });
+      expect((await client.checkHealth())[0].severity).toBe('warning');
     });
 
     it('proactively refreshes token near expiry', async () => {
@@ -352,6 +1128,7 @@ describe('ClaudeUsageClient', () => {
 
       const result = await client.getAccountUsage('Work');
       expect(result.error).toBe('No access token');
+      expect(result.errorInfo?.code).toBe('invalid_credentials');
     });
 
     it('retries with refresh on AuthenticationError', async () => {
@@ -382,6 +1159,7 @@ describe('ClaudeUsageClient', () => {
       );
       const result = await client.getAccountUsage('Work');
       expect(result.error).toBe('Authentication failed');
+      expect(result.errorInfo).toMatchObject({ code: 'authentication_failed', statusCode: 401 });
     });
 
     it('returns auth error when retry refresh throws', async () => {
@@ -405,6 +1183,8 @@ describe('ClaudeUsageClient', () => {
       vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error' }));
       const result = await client.getAccountUsage('Work');
       expect(result.error).toBe('API error: 500 Server Error');
+      expect(result.errorInfo).toMatchObject({ code: 'api_error', retryable: true, statusCode: 500 });
+      expect(result.errorInfo?.at).toBeInstanceOf(Date);
     });
 
     it('falls through to auth error when retry usage also fails', async () => {
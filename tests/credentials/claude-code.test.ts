@@ -0,0 +1,78 @@
+// tests/credentials/claude-code.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { backupPath, restoreClaudeCodeCredentials, writeClaudeCodeCredentials } from '../../src/credentials/claude-code.js';
+
+const CREDS = JSON.stringify({ claudeAiOauth: { accessToken: 'tok', refreshToken: 'rt', expiresAt: '2026-03-01T00:00:00.000Z' } });
+
+let dir: string;
+let path: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'claude-code-creds-test-'));
+  path = join(dir, '.claude', '.credentials.json');
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('writeClaudeCodeCredentials', () => {
+  it('creates the file with expiresAt in epoch milliseconds', async () => {
+    expect(await writeClaudeCodeCredentials(path, CREDS)).toBeNull();
+    const written = JSON.parse(await readFile(path, 'utf8'));
+    expect(written.claudeAiOauth).toEqual({ accessToken: 'tok', refreshToken: 'rt', expiresAt: Date.parse('2026-03-01T00:00:00Z') });
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect(await readFile(backupPath(path), 'utf8')).toBe('');
+  });
+
+  it('backs up the previous file and keeps its other keys', async () => {
+    const previous = JSON.stringify({ claudeAiOauth: { accessToken: 'old', refreshToken: 'x', expiresAt: 1 }, mcpOAuth: { server: 'kept' } });
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, previous);
+
+    expect(await writeClaudeCodeCredentials(path, CREDS)).toBe(previous);
+    expect(await readFile(backupPath(path), 'utf8')).toBe(previous);
+    const written = JSON.parse(await readFile(path, 'utf8'));
+    expect(written.mcpOAuth).toEqual({ server: 'kept' });
+    expect(written.claudeAiOauth.accessToken).toBe('tok');
+  });
+
+  it('keeps the original backup across repeated writes', async () => {
+    const original = JSON.stringify({ claudeAiOauth: { accessToken: 'old', refreshToken: 'x', expiresAt: 1 } });
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, original);
+    await writeClaudeCodeCredentials(path, CREDS);
+    await writeClaudeCodeCredentials(path, CREDS.replace('tok', 'tok2'));
+    expect(await readFile(backupPath(path), 'utf8')).toBe(original);
+  });
+
+  it('rejects credentials without an OAuth access token', async () => {
+    await expect(writeClaudeCodeCredentials(path, JSON.stringify({ adminApiKey: 'sk-ant-admin-x' }))).rejects.toThrow('no OAuth access token');
+  });
+});
+
+describe('restoreClaudeCodeCredentials', () => {
+  it('puts the original file back in place', async () => {
+    const original = JSON.stringify({ claudeAiOauth: { accessToken: 'old', refreshToken: 'x', expiresAt: 1 } });
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, original);
+    await writeClaudeCodeCredentials(path, CREDS);
+    await writeClaudeCodeCredentials(path, CREDS.replace('tok', 'tok2'));
+
+    expect(await restoreClaudeCodeCredentials(path)).toBe(true);
+    expect(await readFile(path, 'utf8')).toBe(original);
+    expect(await restoreClaudeCodeCredentials(path)).toBe(false);
+  });
+
+  it('removes the file when there was none before the first write', async () => {
+    await writeClaudeCodeCredentials(path, CREDS);
+    await writeClaudeCodeCredentials(path, CREDS.replace('tok', 'tok2'));
+
+    expect(await restoreClaudeCodeCredentials(path)).toBe(true);
+    await expect(stat(path)).rejects.toThrow();
+    await expect(stat(backupPath(path))).rejects.toThrow();
+  });
+});
@@ -38,4 +38,12 @@ describe('LinuxCredentialReader', () => {
     const result = await reader.read();
     expect(result).toBeNull();
   });
+
+  it('reads the file under CLAUDE_CONFIG_DIR when set', async () => {
+    vi.stubEnv('CLAUDE_CONFIG_DIR', '/opt/claude-config');
+    mockReadFile.mockResolvedValue('{}' as unknown as Buffer);
+    await reader.read();
+    expect(mockReadFile).toHaveBeenCalledWith('/opt/claude-config/.credentials.json', 'utf8');
+    vi.unstubAllEnvs();
+  });
 });
@@ -1,6 +1,9 @@
 // tests/errors.test.ts
 import { describe, it, expect } from 'vitest';
-import { ClaudeUsageError, AccountNotFoundError, StorageError } from '../src/errors.js';
+import {
+  ClaudeUsageError, AccountNotFoundError, StorageError, StorageKeyError, StorageCorruptedError, AuthenticationError,
+  ApiError, RateLimitError, NetworkError, TokenExpiredError, toErrorInfo,
+} from '../src/errors.js';
 
 describe('errors', () => {
   it('AccountNotFoundError is instanceof ClaudeUsageError', () => {
@@ -17,4 +20,46 @@ describe('errors', () => {
     expect(err.message).toBe('Storage error: Cannot read file');
     expect(err.name).toBe('StorageError');
   });
+
+  it('StorageKeyError and StorageCorruptedError are StorageErrors', () => {
+    const keyErr = new StorageKeyError('wrong passphrase');
+    const corruptErr = new StorageCorruptedError('truncated');
+    expect(keyErr).toBeInstanceOf(StorageError);
+    expect(corruptErr).toBeInstanceOf(StorageError);
+    expect(keyErr.name).toBe('StorageKeyError');
+    expect(corruptErr.message).toBe('Storage error: truncated');
+  });
+
+  it('exposes a stable code and retryable flag', () => {
+    expect(new AccountNotFoundError('Work').code).toBe('account_not_found');
+    expect(new StorageKeyError('x').code).toBe('storage_key_error');
+    expect(new TokenExpiredError().code).toBe('token_expired');
+    expect(new ApiError(404, 'Not found').retryable).toBe(false);
+    expect(new ApiError(503, 'Unavailable').retryable).toBe(true);
+    const limited = new RateLimitError('Slow down', 30_000);
+    expect(limited).toBeInstanceOf(ApiError);
+    expect(limited).toMatchObject({ code: 'rate_limited', retryable: true, statusCode: 429, retryAfterMs: 30_000 });
+  });
+
+  it('AuthenticationError is a ClaudeUsageError', () => {
+    const err = new AuthenticationError(401);
+    expect(err).toBeInstanceOf(ClaudeUsageError);
+    expect(err.code).toBe('authentication_failed');
+    expect(err.message).toBe('Authentication failed (HTTP 401)');
+  });
+
+  it('NetworkError keeps the transport message and cause', () => {
+    const cause = Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } });
+    const err = new NetworkError('https://api.anthropic.com/api/oauth/usage', cause);
+    expect(err.message).toBe('fetch failed');
+    expect(err.url).toBe('https://api.anthropic.com/api/oauth/usage');
+    expect(err.cause).toBe(cause);
+    expect(err.retryable).toBe(true);
+  });
+
+  it('toErrorInfo describes typed and untyped errors', () => {
+    const at = new Date('2026-01-01T00:00:00Z');
+    expect(toErrorInfo(new ApiError(502, 'Bad gateway'), at)).toEqual({ code: 'api_error', retryable: true, statusCode: 502, at });
+    expect(toErrorInfo(new Error('boom'), at)).toEqual({ code: 'unknown', retryable: false, statusCode: null, at });
+  });
 });
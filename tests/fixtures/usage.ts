@@ -0,0 +1,39 @@
+// tests/fixtures/usage.ts — usage results for tests that consume AccountUsage
+import type { AdminAccountUsage, OAuthAccountUsage } from '../../src/types.js';
+
+/** An OAuth result with empty windows; `overrides` replaces whole fields */
+export function oauthUsage(accountName: string, overrides: Partial<OAuthAccountUsage> = {}): OAuthAccountUsage {
+  return {
+    accountType: 'oauth',
+    accountName,
+    windows: {},
+    session: { percent: 0, resetsAt: null },
+    weekly: { percent: 0, resetsAt: null },
+    opus: null,
+    sonnet: null,
+    oauthApps: null,
+    cowork: null,
+    iguanaNecktie: null,
+    extraUsage: { isEnabled: false, monthlyLimit: null, usedCredits: null, utilization: null },
+    ...overrides,
+  };
+}
+
+/** An admin result with no token usage */
+export function adminUsage(accountName: string, overrides: Partial<AdminAccountUsage> = {}): AdminAccountUsage {
+  const now = new Date();
+  return {
+    accountType: 'admin',
+    accountName,
+    periodStart: now,
+    periodEnd: now,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    estimatedCostCents: 0,
+    modelBreakdown: [],
+    actors: [],
+    ...overrides,
+  };
+}
@@ -0,0 +1,66 @@
+// tests/forecast/index.test.ts
+import { describe, it, expect } from 'vitest';
+import { forecastWindow, WINDOW_LENGTHS_MS } from '../../src/forecast/index.js';
+
+const HOUR = 60 * 60_000;
+const now = new Date('2026-03-01T12:00:00Z');
+const at = (offsetMs: number) => new Date(now.getTime() + offsetMs);
+
+describe('forecastWindow', () => {
+  it('uses the average rate since the window opened without samples', () => {
+    // Session window opened 2h ago (resets in 3h) and is 40% used: 20 points/hour
+    const forecast = forecastWindow('session', { percent: 40, resetsAt: at(3 * HOUR) }, [], now);
+    expect(forecast.basis).toBe('window-average');
+    expect(forecast.burnRatePerHour).toBeCloseTo(20);
+    expect(forecast.projectedPercentAtReset).toBeCloseTo(100);
+    expect(forecast.exhaustsAt).toEqual(at(3 * HOUR));
+    expect(forecast.pace).toBeCloseTo(1);
+    expect(forecast.paceStatus).toBe('on-track');
+  });
+
+  it('uses the recent trend from samples', () => {
+    const samples = [
+      { at: at(-HOUR / 2), percent: 10, resetsAt: at(3 * HOUR) },
+      { at: at(-HOUR / 4), percent: 25, resetsAt: at(3 * HOUR) },
+    ];
+    const forecast = forecastWindow('session', { percent: 40, resetsAt: at(3 * HOUR) }, samples, now);
+    expect(forecast.basis).toBe('history');
+    expect(forecast.burnRatePerHour).toBeCloseTo(60);
+    expect(forecast.exhaustsAt).toEqual(at(HOUR));
+    expect(forecast.projectedPercentAtReset).toBeCloseTo(220);
+  });
+
+  it('ignores samples from before the window opened', () => {
+    const samples = [{ at: at(-3 * HOUR), percent: 90, resetsAt: at(-HOUR) }];
+    expect(forecastWindow('session', { percent: 40, resetsAt: at(3 * HOUR) }, samples, now).basis).toBe('window-average');
+  });
+
+  it('reports no exhaustion when the window resets first', () => {
+    const weekly = forecastWindow('weekly', { percent: 10, resetsAt: at(6 * 24 * HOUR) }, [], now);
+    expect(weekly.exhaustsAt).toBeNull();
+    expect(weekly.paceStatus).toBe('under');
+  });
+
+  it('flags consumption ahead of the window', () => {
+    const forecast = forecastWindow('session', { percent: 80, resetsAt: at(4 * HOUR) }, [], now);
+    expect(forecast.pace).toBeCloseTo(4);
+    expect(forecast.paceStatus).toBe('over');
+  });
+
+  it('treats an exhausted window as exhausted now', () => {
+    expect(forecastWindow('session', { percent: 100, resetsAt: at(HOUR) }, [], now).exhaustsAt).toEqual(now);
+  });
+
+  it('cannot forecast without a reset time or known length', () => {
+    expect(forecastWindow('session', { percent: 10, resetsAt: null }, [], now)).toMatchObject({ burnRatePerHour: null, paceStatus: 'unknown' });
+    expect(forecastWindow('iguanaNecktie', { percent: 10, resetsAt: at(HOUR) }, [], now).pace).toBeNull();
+  });
+});
+
+describe('WINDOW_LENGTHS_MS', () => {
+  it('takes window lengths from the usage window metadata', () => {
+    expect(WINDOW_LENGTHS_MS).toEqual({
+      session: 5 * HOUR, weekly: 168 * HOUR, opus: 168 * HOUR, sonnet: 168 * HOUR, oauthApps: 168 * HOUR, cowork: 168 * HOUR,
+    });
+  });
+});
@@ -0,0 +1,49 @@
+// tests/health/index.test.ts
+import { describe, it, expect } from 'vitest';
+import { assessHealth } from '../../src/health/index.js';
+import type { SavedAccount } from '../../src/types.js';
+
+const DAY = 24 * 60 * 60_000;
+const now = new Date('2026-03-01T12:00:00Z');
+const noFacts = { lastSuccessAt: null, lastErrorCode: null, authenticated: null };
+
+function oauth(expiresInMs: number, refreshToken = 'rt'): SavedAccount {
+  const expiresAt = new Date(now.getTime() + expiresInMs).toISOString();
+  return { name: 'Work', credentials: JSON.stringify({ claudeAiOauth: { accessToken: 'tok', refreshToken, expiresAt } }), savedAt: now.toISOString() };
+}
+
+const admin: SavedAccount = { name: 'Org', accountType: 'admin', credentials: JSON.stringify({ adminApiKey: 'sk-ant-admin-x' }), savedAt: now.toISOString() };
+
+describe('assessHealth', () => {
+  it('reports a refreshable OAuth account as ok even when its access token expired', () => {
+    const health = assessHealth(oauth(-DAY), noFacts, now);
+    expect(health).toMatchObject({ severity: 'ok', refreshable: true, issues: [], remediation: null });
+    expect(health.expiresAt).toEqual(new Date(now.getTime() - DAY));
+  });
+
+  it('warns before a setup token without a refresh token expires', () => {
+    const health = assessHealth(oauth(10 * DAY, ''), noFacts, now);
+    expect(health).toMatchObject({ severity: 'warning', refreshable: false, remediation: "Re-run authenticate('Work')" });
+    expect(health.issues).toEqual(['Token expires in 10 days and has no refresh token']);
+    expect(assessHealth(oauth(10 * DAY, ''), noFacts, now, 7).severity).toBe('ok');
+  });
+
+  it('is critical once a token that cannot be refreshed has expired', () => {
+    expect(assessHealth(oauth(-1000, ''), noFacts, now).severity).toBe('critical');
+  });
+
+  it('grades the last error by whether new credentials are needed', () => {
+    const expired = assessHealth(oauth(DAY), { ...noFacts, lastErrorCode: 'token_expired' }, now);
+    expect(expired).toMatchObject({ severity: 'critical', remediation: "Re-run authenticate('Work')" });
+
+    const limited = assessHealth(oauth(DAY), { ...noFacts, lastErrorCode: 'rate_limited' }, now);
+    expect(limited).toMatchObject({ severity: 'warning', lastErrorCode: 'rate_limited', remediation: 'Wait for the rate limit to reset' });
+  });
+
+  it('reports an admin key that no longer authenticates', () => {
+    const health = assessHealth(admin, { ...noFacts, lastErrorCode: 'authentication_failed', authenticated: false }, now);
+    expect(health).toMatchObject({ severity: 'critical', expiresAt: null, refreshable: false, authenticated: false });
+    expect(health.issues).toEqual(['Admin API key no longer authenticates']);
+    expect(health.remediation).toContain('saveAdminAccount');
+  });
+});
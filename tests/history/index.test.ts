@@ -0,0 +1,77 @@
+// tests/history/index.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { UsageHistoryRecorder } from '../../src/history/index.js';
+import { PlainLineLog } from '../../src/storage/line-log.js';
+import type { OAuthAccountUsage } from '../../src/types.js';
+import { oauthUsage } from '../fixtures/usage.js';
+
+function usage(accountName: string, session: number, weekly: number, opus: number | null = null): OAuthAccountUsage {
+  return oauthUsage(accountName, {
+    session: { percent: session, resetsAt: new Date('2026-03-01T05:00:00Z') },
+    weekly: { percent: weekly, resetsAt: null },
+    opus: opus === null ? null : { percent: opus, resetsAt: null },
+  });
+}
+
+let tmpDir: string;
+let path: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'claude-usage-history-test-'));
+  path = join(tmpDir, 'history.jsonl');
+});
+
+afterEach(async () => {
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('UsageHistoryRecorder', () => {
+  it('returns a series per reported window', async () => {
+    const recorder = new UsageHistoryRecorder(new PlainLineLog(path));
+    const t1 = new Date(Date.now() - 120_000);
+    const t2 = new Date(Date.now() - 60_000);
+    await recorder.record([{ at: t1, usage: usage('Work', 10, 5) }, { at: t1, usage: usage('Other', 90, 90) }]);
+    await recorder.record([{ at: t2, usage: usage('Work', 20, 6, 1) }]);
+
+    const history = await recorder.query('Work');
+    expect(Object.keys(history)).toEqual(['session', 'weekly', 'opus']);
+    expect(history.session).toEqual([
+      { at: t1, percent: 10, resetsAt: new Date('2026-03-01T05:00:00Z') },
+      { at: t2, percent: 20, resetsAt: new Date('2026-03-01T05:00:00Z') },
+    ]);
+    expect(history.opus).toEqual([{ at: t2, percent: 1, resetsAt: null }]);
+  });
+
+  it('filters by time range and window', async () => {
+    const recorder = new UsageHistoryRecorder(new PlainLineLog(path));
+    const base = Date.now() - 3 * 60_000;
+    for (let i = 0; i < 3; i++) {
+      await recorder.record([{ at: new Date(base + i * 60_000), usage: usage('Work', i, i) }]);
+    }
+    const history = await recorder.query('Work', { from: new Date(base + 30_000), to: new Date(base + 90_000), window: 'weekly' });
+    expect(history).toEqual({ weekly: [{ at: new Date(base + 60_000), percent: 1, resetsAt: null }] });
+  });
+
+  it('prunes samples past the retention period', async () => {
+    const recorder = new UsageHistoryRecorder(new PlainLineLog(path), 1);
+    await recorder.record([
+      { at: new Date(Date.now() - 2 * 24 * 60 * 60_000), usage: usage('Work', 1, 1) },
+      { at: new Date(), usage: usage('Work', 2, 2) },
+    ]);
+    expect((await recorder.query('Work')).session?.map(s => s.percent)).toEqual([2]);
+    expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(1);
+  });
+
+  it('follows renames and deletions', async () => {
+    const recorder = new UsageHistoryRecorder(new PlainLineLog(path));
+    await recorder.record([{ at: new Date(), usage: usage('A', 1, 1) }, { at: new Date(), usage: usage('B', 2, 2) }]);
+    await recorder.renameAccount('A', 'C');
+    await recorder.removeAccount('B');
+    expect(await recorder.query('A')).toEqual({});
+    expect(await recorder.query('B')).toEqual({});
+    expect((await recorder.query('C')).session).toHaveLength(1);
+  });
+});
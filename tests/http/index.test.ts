@@ -0,0 +1,240 @@
+// tests/http/index.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { request, parseRetryAfter, withBaseUrl, RetryBudget, errorForResponse, proxyFor } from '../../src/http/index.js';
+import { ApiError, AuthenticationError, NetworkError, RateLimitError } from '../../src/errors.js';
+
+type Reply = (res: ServerResponse) => void;
+
+const status = (code: number, headers: Record<string, string> = {}): Reply => res => {
+  res.writeHead(code, headers).end(JSON.stringify({ code }));
+};
+const hangUp: Reply = res => { res.socket?.destroy(); };
+
+let server: Server;
+let url: string;
+let replies: Reply[];
+let hits: number;
+
+beforeEach(async () => {
+  replies = [];
+  hits = 0;
+  server = createServer((req, res) => {
+    hits++;
+    req.resume();
+    (replies.shift() ?? status(200))(res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+const fast = { retry: { baseDelayMs: 1 } };
+
+describe('request', () => {
+  it('retries transient statuses on GET until one succeeds', async () => {
+    replies.push(status(529), status(503));
+    const response = await request(url, {}, fast);
+    expect(response.status).toBe(200);
+    expect(hits).toBe(3);
+  });
+
+  it('gives up after maxAttempts and returns the last response', async () => {
+    replies.push(status(500), status(502), status(504));
+    const response = await request(url, {}, { retry: { maxAttempts: 2, baseDelayMs: 1 } });
+    expect(response.status).toBe(502);
+    expect(hits).toBe(2);
+  });
+
+  it('does not retry client errors', async () => {
+    replies.push(status(404));
+    expect((await request(url, {}, fast)).status).toBe(404);
+    expect(hits).toBe(1);
+  });
+
+  it('waits for Retry-After', async () => {
+    replies.push(status(429, { 'Retry-After': '1' }));
+    const started = Date.now();
+    expect((await request(url, {}, fast)).status).toBe(200);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+  });
+
+  it('returns at once when Retry-After exceeds maxDelayMs', async () => {
+    replies.push(status(429, { 'Retry-After': '120' }));
+    expect((await request(url, {}, fast)).status).toBe(429);
+    expect(hits).toBe(1);
+  });
+
+  it('retries GET after a dropped connection', async () => {
+    replies.push(hangUp);
+    expect((await request(url, {}, fast)).status).toBe(200);
+    expect(hits).toBe(2);
+  });
+
+  it('retries POST only when the request was not processed', async () => {
+    replies.push(status(500));
+    expect((await request(url, { method: 'POST', body: '{}' }, fast)).status).toBe(500);
+    expect(hits).toBe(1);
+
+    replies.push(status(429));
+    expect((await request(url, { method: 'POST', body: '{}' }, fast)).status).toBe(200);
+    expect(hits).toBe(3);
+
+    replies.push(hangUp);
+    await expect(request(url, { method: 'POST', body: '{}' }, fast)).rejects.toThrow();
+    expect(hits).toBe(4);
+  });
+
+  it('retries POST when the connection is refused', async () => {
+    const closed = createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise(resolve => closed.close(resolve));
+
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    await expect(request(`http://127.0.0.1:${port}/`, { method: 'POST' }, fast)).rejects.toBeInstanceOf(NetworkError);
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it('shares a retry budget across requests', async () => {
+    replies.push(...Array.from({ length: 6 }, () => status(503)));
+    const budget = new RetryBudget(1);
+    await request(url, {}, { ...fast, budget });
+    await request(url, {}, { ...fast, budget });
+    expect(hits).toBe(3);
+  });
+
+  it('stops waiting for a retry when the signal aborts', async () => {
+    replies.push(status(503, { 'Retry-After': '20' }));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const started = Date.now();
+    await expect(request(url, {}, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(hits).toBe(1);
+  });
+
+  it('aborts the request in flight', async () => {
+    replies.push(() => { /* never answers */ });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    await expect(request(url, {}, { ...fast, signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(hits).toBe(1);
+  });
+
+  it('sends once with retry disabled', async () => {
+    replies.push(status(503));
+    expect((await request(url, {}, { retry: false })).status).toBe(503);
+    expect(hits).toBe(1);
+  });
+});
+
+describe('transport', () => {
+  it('sends through an injected fetch', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response('{}', { status: 200 }));
+    await request('https://api.example.com/x', { method: 'GET' }, { fetch: fetchImpl });
+    expect(fetchImpl).toHaveBeenCalledWith('https://api.example.com/x', { method: 'GET' });
+    expect(hits).toBe(0);
+  });
+
+  it('tunnels through the proxy in HTTP_PROXY', async () => {
+    let tunnelTarget: string | undefined;
+    let tunneledRequest = '';
+    server.on('connect', (req, socket) => {
+      tunnelTarget = req.url;
+      socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      socket.once('data', chunk => {
+        tunneledRequest = chunk.toString();
+        socket.end('HTTP/1.1 200 OK\r\nContent-Length: 2\r\nConnection: close\r\n\r\n{}');
+      });
+    });
+    vi.stubEnv('HTTP_PROXY', url);
+    vi.stubEnv('NO_PROXY', '');
+    const emitWarning = vi.spyOn(process, 'emitWarning');
+    const response = await request('http://upstream.invalid/api/oauth/usage', {}, { retry: false });
+    expect(response.status).toBe(200);
+    expect(tunnelTarget).toBe('upstream.invalid:80');
+    expect(tunneledRequest.startsWith('GET /api/oauth/usage HTTP/1.1')).toBe(true);
+    expect(emitWarning).not.toHaveBeenCalled();
+  });
+
+  it('connects directly to hosts in NO_PROXY', async () => {
+    vi.stubEnv('HTTP_PROXY', 'http://proxy.invalid:3128');
+    vi.stubEnv('NO_PROXY', 'example.com, 127.0.0.1');
+    replies = [status(200)];
+    const response = await request(url, {}, { retry: false });
+    expect(response.status).toBe(200);
+    expect(hits).toBe(1);
+  });
+});
+
+describe('proxyFor', () => {
+  beforeEach(() => {
+    vi.stubEnv('HTTPS_PROXY', 'http://secure-proxy:3128');
+    vi.stubEnv('HTTP_PROXY', 'http://proxy:3128');
+  });
+
+  it('picks the proxy by scheme', () => {
+    vi.stubEnv('NO_PROXY', '');
+    expect(proxyFor('https://api.anthropic.com/x')).toBe('http://secure-proxy:3128');
+    expect(proxyFor('http://localhost:8080/x')).toBe('http://proxy:3128');
+    vi.stubEnv('HTTPS_PROXY', '');
+    expect(proxyFor('https://api.anthropic.com/x')).toBe('http://proxy:3128');
+  });
+
+  it('skips hosts matched by NO_PROXY', () => {
+    vi.stubEnv('NO_PROXY', '.internal,*.corp.example, anthropic.com localhost:8080 [::1]:9000');
+    expect(proxyFor('https://gateway.internal/x')).toBeNull();
+    expect(proxyFor('https://a.corp.example/x')).toBeNull();
+    expect(proxyFor('https://api.anthropic.com/x')).toBeNull();
+    expect(proxyFor('https://anthropic.com/x')).toBeNull();
+    expect(proxyFor('http://localhost:8080/x')).toBeNull();
+    expect(proxyFor('http://localhost:9090/x')).toBe('http://proxy:3128');
+    expect(proxyFor('http://[::1]:9000/x')).toBeNull();
+    expect(proxyFor('https://notanthropic.com/x')).toBe('http://secure-proxy:3128');
+  });
+
+  it('skips every host for NO_PROXY=*', () => {
+    vi.stubEnv('no_proxy', '*');
+    vi.stubEnv('NO_PROXY', '');
+    expect(proxyFor('https://api.anthropic.com/x')).toBeNull();
+  });
+});
+
+describe('errorForResponse', () => {
+  it('maps statuses to typed errors', () => {
+    expect(errorForResponse(new Response(null, { status: 401 }), 'x')).toBeInstanceOf(AuthenticationError);
+    const limited = errorForResponse(new Response(null, { status: 429, headers: { 'Retry-After': '7' } }), 'Slow down');
+    expect(limited).toBeInstanceOf(RateLimitError);
+    expect((limited as RateLimitError).retryAfterMs).toBe(7000);
+    const failed = errorForResponse(new Response(null, { status: 500 }), 'API error: 500');
+    expect(failed).toBeInstanceOf(ApiError);
+    expect(failed).toMatchObject({ message: 'API error: 500', statusCode: 500, retryable: true });
+  });
+});
+
+describe('withBaseUrl', () => {
+  it('keeps the endpoint path and query under the base', () => {
+    expect(withBaseUrl('https://api.anthropic.com/api/oauth/usage', undefined)).toBe('https://api.anthropic.com/api/oauth/usage');
+    expect(withBaseUrl('https://api.anthropic.com/v1?x=1', 'http://localhost:8080/')).toBe('http://localhost:8080/v1?x=1');
+    expect(withBaseUrl('https://api.anthropic.com/v1', 'https://gateway.example.com/anthropic')).toBe('https://gateway.example.com/anthropic/v1');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('accepts seconds and HTTP dates', () => {
+    const now = Date.parse('2026-03-01T00:00:00Z');
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Sun, 01 Mar 2026 00:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Sat, 28 Feb 2026 00:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
@@ -1,6 +1,6 @@
 // tests/index.test.ts
 import { describe, it, expect } from 'vitest';
-import { ClaudeUsageClient, authorize, ClaudeUsageError, AccountNotFoundError, StorageError } from '../src/index.js';
+import { ClaudeUsageClient, authorize, ClaudeUsageError, AccountNotFoundError, StorageError, AccountStore, MemoryAccountStorage } from '../src/index.js';
 
 describe('barrel exports', () => {
   it('exports all public API', () => {
@@ -9,5 +9,7 @@ describe('barrel exports', () => {
     expect(ClaudeUsageError).toBeDefined();
     expect(AccountNotFoundError).toBeDefined();
     expect(StorageError).toBeDefined();
+    expect(AccountStore).toBeDefined();
+    expect(MemoryAccountStorage).toBeDefined();
   });
 });
@@ -0,0 +1,37 @@
+// tests/storage/atomic.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readdir, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { writeFileAtomic } from '../../src/storage/atomic.js';
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'claude-usage-atomic-test-'));
+});
+
+afterEach(async () => {
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('writeFileAtomic', () => {
+  it('creates the directory and replaces the file with mode 0600', async () => {
+    const path = join(tmpDir, 'nested', 'data.enc');
+    await writeFileAtomic(path, 'first', { dirMode: 0o700 });
+    await writeFileAtomic(path, 'second');
+
+    expect(await readFile(path, 'utf8')).toBe('second');
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect((await stat(join(tmpDir, 'nested'))).mode & 0o777).toBe(0o700);
+    expect(await readdir(join(tmpDir, 'nested'))).toEqual(['data.enc']);
+  });
+
+  it('removes the temp file when the rename fails', async () => {
+    const path = join(tmpDir, 'data.enc');
+    await mkdir(join(path, 'occupied'), { recursive: true });
+
+    await expect(writeFileAtomic(path, 'content')).rejects.toThrow();
+    expect(await readdir(tmpDir)).toEqual(['data.enc']);
+  });
+});
@@ -1,6 +1,9 @@
 // tests/storage/crypto.test.ts
 import { describe, it, expect } from 'vitest';
-import { encrypt, decrypt } from '../../src/storage/crypto.js';
+import { randomBytes } from 'node:crypto';
+import { encrypt, decrypt, isEnvelope, readEnvelopeHeader } from '../../src/storage/crypto.js';
+import { legacyEncrypt } from './fixtures/legacy.js';
+import { StorageCorruptedError } from '../../src/errors.js';
 
 describe('crypto', () => {
   it('round-trips data', async () => {
@@ -20,4 +23,132 @@ describe('crypto', () => {
   it('throws on corrupted data', async () => {
     await expect(decrypt('not-valid-base64!!')).rejects.toThrow();
   });
+
+  describe('passphrase mode', () => {
+    const fastScrypt = { mode: 'passphrase', passphrase: 'correct horse', kdf: { algorithm: 'scrypt', cost: 1024 } } as const;
+
+    it('round-trips with scrypt', async () => {
+      const encrypted = await encrypt('secret', fastScrypt);
+      expect(await decrypt(encrypted, fastScrypt)).toBe('secret');
+    });
+
+    it('round-trips with pbkdf2', async () => {
+      const opts = { mode: 'passphrase', passphrase: 'pw', kdf: { algorithm: 'pbkdf2', iterations: 1000 } } as const;
+      const encrypted = await encrypt('secret', opts);
+      expect(await decrypt(encrypted, opts)).toBe('secret');
+    });
+
+    it('fails to decrypt with the wrong passphrase', async () => {
+      const encrypted = await encrypt('secret', fastScrypt);
+      await expect(decrypt(encrypted, { ...fastScrypt, passphrase: 'wrong' })).rejects.toThrow();
+    });
+
+    it('is not decryptable with the machine key', async () => {
+      const encrypted = await encrypt('secret', fastScrypt);
+      await expect(decrypt(encrypted)).rejects.toThrow();
+    });
+
+    it('rejects an empty passphrase', async () => {
+      await expect(encrypt('secret', { mode: 'passphrase', passphrase: '' })).rejects.toThrow('Passphrase must not be empty');
+    });
+  });
+
+  describe('key-provider mode', () => {
+    it('round-trips with a caller-supplied key', async () => {
+      const key = randomBytes(32);
+      const opts = { mode: 'key-provider', getKey: async () => key } as const;
+      const encrypted = await encrypt('secret', opts);
+      expect(await decrypt(encrypted, opts)).toBe('secret');
+    });
+
+    it('rejects keys of the wrong length', async () => {
+      const opts = { mode: 'key-provider', getKey: () => randomBytes(16) } as const;
+      await expect(encrypt('secret', opts)).rejects.toThrow('32-byte key');
+    });
+  });
+
+  describe('envelope format', () => {
+    const key = randomBytes(32);
+    const keyProvider = { mode: 'key-provider', getKey: () => key } as const;
+
+    it('writes a self-describing header with a random salt', async () => {
+      const a = await encrypt('x');
+      const b = await encrypt('x');
+      expect(isEnvelope(a)).toBe(true);
+      expect(Buffer.from(a, 'base64').subarray(0, 4).toString('ascii')).toBe('CUCE');
+      const header = readEnvelopeHeader(a);
+      expect(header.cipher).toBe('aes-256-gcm');
+      expect(header.kdf).toEqual({ name: 'pbkdf2', source: 'machine-id', iterations: 100_000, digest: 'sha256' });
+      expect(Buffer.from(header.salt, 'base64')).toHaveLength(16);
+      expect(readEnvelopeHeader(b).salt).not.toBe(header.salt);
+    });
+
+    it('records passphrase KDF parameters in the header', async () => {
+      const encrypted = await encrypt('x', { mode: 'passphrase', passphrase: 'pw', kdf: { algorithm: 'scrypt', cost: 1024, blockSize: 4 } });
+      expect(readEnvelopeHeader(encrypted).kdf).toEqual({ name: 'scrypt', source: 'passphrase', N: 1024, r: 4, p: 1 });
+    });
+
+    it('decrypts using the parameters stored in the file, not the configured ones', async () => {
+      const encrypted = await encrypt('secret', { mode: 'passphrase', passphrase: 'pw', kdf: { algorithm: 'pbkdf2', iterations: 1000 } });
+      const decrypted = await decrypt(encrypted, { mode: 'passphrase', passphrase: 'pw', kdf: { algorithm: 'scrypt', cost: 1024 } });
+      expect(decrypted).toBe('secret');
+    });
+
+    it('reports a key source mismatch', async () => {
+      const encrypted = await encrypt('secret', keyProvider);
+      await expect(decrypt(encrypted)).rejects.toThrow('encrypted with a key-provider key');
+    });
+
+    it('authenticates the header', async () => {
+      const combined = Buffer.from(await encrypt('secret', { mode: 'passphrase', passphrase: 'pw', kdf: { algorithm: 'pbkdf2', iterations: 1000 } }), 'base64');
+      const tampered = Buffer.from(combined.toString('latin1').replace('"iterations":1000', '"iterations":1001'), 'latin1');
+      await expect(decrypt(tampered.toString('base64'), { mode: 'passphrase', passphrase: 'pw' })).rejects.toThrow();
+    });
+
+    it('rejects KDF parameters outside safe bounds before deriving a key', async () => {
+      // Rewrites the header JSON and its length field, as a crafted bundle would
+      const withKdf = (ciphertext: string, kdf: object) => {
+        const combined = Buffer.from(ciphertext, 'base64');
+        const headerLen = combined.readUInt16BE(5);
+        const header = { ...JSON.parse(combined.subarray(7, 7 + headerLen).toString('utf8')), kdf };
+        const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+        const prefix = Buffer.from(combined.subarray(0, 7));
+        prefix.writeUInt16BE(headerBytes.length, 5);
+        return Buffer.concat([prefix, headerBytes, combined.subarray(7 + headerLen)]).toString('base64');
+      };
+      const encrypted = await encrypt('secret', { mode: 'passphrase', passphrase: 'pw', kdf: { algorithm: 'pbkdf2', iterations: 1000 } });
+      const crafted = [
+        { name: 'pbkdf2', source: 'passphrase', iterations: 1e12, digest: 'sha256' },
+        { name: 'pbkdf2', source: 'passphrase', iterations: '1000', digest: 'sha256' },
+        { name: 'scrypt', source: 'passphrase', N: 2 ** 24, r: 8, p: 1 },
+        { name: 'scrypt', source: 'passphrase', N: 1000, r: 8, p: 1 },
+        { name: 'scrypt', source: 'passphrase', N: 1024, r: 8, p: 1e6 },
+      ];
+      for (const kdf of crafted) {
+        await expect(decrypt(withKdf(encrypted, kdf), { mode: 'passphrase', passphrase: 'pw' })).rejects.toBeInstanceOf(StorageCorruptedError);
+      }
+    });
+
+    it('refuses to encrypt with parameters it could not read back', async () => {
+      await expect(encrypt('x', { mode: 'passphrase', passphrase: 'pw', kdf: { algorithm: 'scrypt', cost: 2 ** 22 } }))
+        .rejects.toThrow('Invalid encryption.kdf');
+    });
+
+    it('rejects unknown format versions', async () => {
+      const combined = Buffer.from(await encrypt('secret', keyProvider), 'base64');
+      combined.writeUInt8(99, 4);
+      await expect(decrypt(combined.toString('base64'), keyProvider)).rejects.toThrow('Unsupported encryption format version 99');
+    });
+
+    it('still decrypts the legacy machine-id format', async () => {
+      const legacy = legacyEncrypt('legacy');
+      expect(isEnvelope(legacy)).toBe(false);
+      expect(await decrypt(legacy)).toBe('legacy');
+    });
+
+    it('reads the legacy format only with the machine-id key', async () => {
+      await expect(decrypt(legacyEncrypt('legacy'), keyProvider)).rejects.toThrow('predates the envelope format');
+    });
+  });
 });
+
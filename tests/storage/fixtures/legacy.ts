@@ -0,0 +1,13 @@
+// tests/storage/fixtures/legacy.ts — payloads in the pre-envelope format released versions wrote
+import { createCipheriv, createHash, pbkdf2Sync, randomBytes } from 'node:crypto';
+import machineId from 'node-machine-id';
+
+/** base64(iv + authTag + ciphertext) under the unsalted machine-ID key */
+export function legacyEncrypt(plaintext: string): string {
+  const id = machineId.machineIdSync(true);
+  const key = pbkdf2Sync(id + 'claude-usage-core', createHash('sha256').update(id).digest(), 100_000, 32, 'sha256');
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+}
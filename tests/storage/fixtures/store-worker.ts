@@ -0,0 +1,14 @@
+// tests/storage/fixtures/store-worker.ts — child process that hammers a shared AccountStore
+import { AccountStore } from '../../../src/storage/index.js';
+
+const [filePath, workerId, count] = process.argv.slice(2);
+const key = Buffer.from(process.env['STORE_KEY'] ?? '', 'hex');
+const store = new AccountStore(filePath, {
+  encryption: { mode: 'key-provider', getKey: () => key },
+  lock: { timeoutMs: 30_000 },
+});
+
+for (let i = 0; i < Number(count); i++) {
+  await store.saveAccount(`worker-${workerId}-${i}`, `creds-${workerId}-${i}`);
+  await store.setActiveAccount(`worker-${workerId}-${i}`);
+}
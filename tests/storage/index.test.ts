@@ -1,10 +1,21 @@
 // tests/storage/index.test.ts
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtemp, rm, writeFile, mkdir } from 'node:fs/promises';
+import { mkdtemp, rm, readFile, readdir, writeFile, mkdir } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { fileURLToPath } from 'node:url';
+import { randomBytes } from 'node:crypto';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { AccountStore } from '../../src/storage/index.js';
-import { StorageError } from '../../src/errors.js';
+import { isEnvelope, encrypt, decrypt } from '../../src/storage/crypto.js';
+import { legacyEncrypt } from './fixtures/legacy.js';
+import { CURRENT_SCHEMA_VERSION } from '../../src/storage/migrations.js';
+import { describeAccountStorageConformance } from '../../src/testing/conformance.js';
+import { StorageError, StorageKeyError, StorageCorruptedError } from '../../src/errors.js';
+import type { AccountsData } from '../../src/types.js';
+
+const execFileAsync = promisify(execFile);
 
 let tmpDir: string;
 let store: AccountStore;
@@ -18,6 +29,11 @@ afterEach(async () => {
   await rm(tmpDir, { recursive: true, force: true });
 });
 
+describeAccountStorageConformance('AccountStore', {
+  create: async () => new AccountStore(join(tmpDir, 'conformance.enc')),
+  reopen: async () => new AccountStore(join(tmpDir, 'conformance.enc')),
+});
+
 describe('AccountStore', () => {
   it('starts empty', async () => {
     const data = await store.load();
@@ -171,4 +187,211 @@ describe('AccountStore', () => {
       await expect(store.renameAccount('first', 'second')).rejects.toThrow('already exists');
     });
   });
+
+  describe('encryption options', () => {
+    const passphrase = { mode: 'passphrase', passphrase: 'hunter2', kdf: { algorithm: 'scrypt', cost: 1024 } } as const;
+
+    it('stores accounts under a passphrase-derived key', async () => {
+      const path = join(tmpDir, 'accounts.enc');
+      await new AccountStore(path, { encryption: passphrase }).saveAccount('Work', 'creds');
+      const data = await new AccountStore(path, { encryption: passphrase }).load();
+      expect(data.accounts[0].name).toBe('Work');
+      await expect(new AccountStore(path).load()).rejects.toBeInstanceOf(StorageError);
+    });
+
+    it('rekey re-encrypts existing accounts under the new key', async () => {
+      const path = join(tmpDir, 'accounts.enc');
+      await store.saveAccount('Work', 'creds', 'work@example.com');
+      await store.setActiveAccount('Work');
+      await store.rekey(passphrase);
+
+      await expect(new AccountStore(path).load()).rejects.toBeInstanceOf(StorageError);
+      const data = await new AccountStore(path, { encryption: passphrase }).load();
+      expect(data.accounts[0].email).toBe('work@example.com');
+      expect(data.activeAccountName).toBe('Work');
+      // The instance keeps using the new key
+      await store.saveAccount('Personal', 'creds2');
+      expect((await new AccountStore(path, { encryption: passphrase }).load()).accounts).toHaveLength(2);
+    });
+
+    it('keeps the old key when rekey fails', async () => {
+      await store.saveAccount('Work', 'creds');
+      const badKey = { mode: 'key-provider', getKey: () => Buffer.alloc(8) } as const;
+      await expect(store.rekey(badKey)).rejects.toBeInstanceOf(StorageError);
+      expect((await store.load()).accounts).toHaveLength(1);
+    });
+  });
+
+  describe('file format', () => {
+    it('writes the versioned envelope format', async () => {
+      await store.saveAccount('Work', 'creds');
+      const raw = await readFile(join(tmpDir, 'accounts.enc'), 'utf8');
+      expect(isEnvelope(raw)).toBe(true);
+    });
+
+    it('reads a legacy file and upgrades it on the next save', async () => {
+      const path = join(tmpDir, 'accounts.enc');
+      const legacy: Omit<AccountsData, 'schemaVersion'> = {
+        accounts: [{ name: 'Old', email: 'old@example.com', credentials: 'creds', savedAt: '2025-01-01T00:00:00.000Z' }],
+        activeAccountName: 'Old',
+      };
+      await writeFile(path, legacyEncrypt(JSON.stringify(legacy)), 'utf8');
+      const legacyStore = new AccountStore(path);
+
+      const data = await legacyStore.load();
+      expect(data.accounts[0].email).toBe('old@example.com');
+      expect(isEnvelope(await readFile(path, 'utf8'))).toBe(false);
+
+      await legacyStore.saveAccount('New', 'creds2');
+      expect(isEnvelope(await readFile(path, 'utf8'))).toBe(true);
+      const upgraded = await new AccountStore(path).load();
+      expect(upgraded.accounts.map(a => a.name)).toEqual(['Old', 'New']);
+      expect(upgraded.activeAccountName).toBe('Old');
+    });
+  });
+
+  describe('concurrency', () => {
+    it('does not leave temp files behind after saving', async () => {
+      await store.saveAccount('Work', 'creds');
+      await store.setActiveAccount('Work');
+      expect((await readdir(tmpDir)).filter(f => !f.includes('.bak.'))).toEqual(['accounts.enc']);
+    });
+
+    it('serializes concurrent mutations from one process', async () => {
+      await Promise.all(
+        Array.from({ length: 5 }, (_, i) => new AccountStore(join(tmpDir, 'accounts.enc')).saveAccount(`acct-${i}`, 'creds')),
+      );
+      const data = await store.load();
+      expect(data.accounts.map(a => a.name).sort()).toEqual(['acct-0', 'acct-1', 'acct-2', 'acct-3', 'acct-4']);
+    });
+
+    it('does not lose accounts when multiple processes write the same file', async () => {
+      const path = join(tmpDir, 'accounts.enc');
+      const key = randomBytes(32);
+      const worker = fileURLToPath(new URL('./fixtures/store-worker.ts', import.meta.url));
+      const workers = 4;
+      const perWorker = 5;
+
+      await Promise.all(Array.from({ length: workers }, (_, id) =>
+        execFileAsync(process.execPath, ['--import', 'tsx', worker, path, String(id), String(perWorker)], {
+          env: { ...process.env, STORE_KEY: key.toString('hex') },
+        }),
+      ));
+
+      const data = await new AccountStore(path, { encryption: { mode: 'key-provider', getKey: () => key } }).load();
+      expect(data.accounts).toHaveLength(workers * perWorker);
+      expect(data.activeAccountName).toMatch(/^worker-\d-4$/);
+      expect((await readdir(tmpDir)).filter(f => f.endsWith('.tmp') || f.endsWith('.lock'))).toEqual([]);
+    }, 60_000);
+  });
+
+  describe('schema versioning', () => {
+    const key = randomBytes(32);
+    const keyProvider = { mode: 'key-provider', getKey: () => key } as const;
+
+    it('stamps saved data with the current schema version', async () => {
+      await store.saveAccount('Work', 'creds');
+      const raw = JSON.parse(await decrypt(await readFile(join(tmpDir, 'accounts.enc'), 'utf8')));
+      expect(raw.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it('migrates unversioned payloads on load', async () => {
+      const path = join(tmpDir, 'accounts.enc');
+      const unversioned = { accounts: [{ name: 'Old', credentials: 'creds', savedAt: '2025-01-01T00:00:00.000Z' }], activeAccountName: null };
+      await writeFile(path, await encrypt(JSON.stringify(unversioned), keyProvider), 'utf8');
+      const data = await new AccountStore(path, { encryption: keyProvider }).load();
+      expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(data.accounts[0].accountType).toBe('oauth');
+    });
+
+    it('refuses data written by a newer schema', async () => {
+      const path = join(tmpDir, 'accounts.enc');
+      const future = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, accounts: [], activeAccountName: null, newField: true };
+      await writeFile(path, await encrypt(JSON.stringify(future), keyProvider), 'utf8');
+      const futureStore = new AccountStore(path, { encryption: keyProvider });
+      await expect(futureStore.load()).rejects.toThrow(`schema version ${CURRENT_SCHEMA_VERSION + 1}`);
+      // Mutations must not overwrite the newer file either
+      await expect(futureStore.saveAccount('Work', 'creds')).rejects.toBeInstanceOf(StorageError);
+      expect(JSON.parse(await decrypt(await readFile(path, 'utf8'), keyProvider)).newField).toBe(true);
+    });
+  });
+
+  describe('backups and recovery', () => {
+    const path = () => join(tmpDir, 'accounts.enc');
+
+    it('keeps a rotating set of backups', async () => {
+      const backedUp = new AccountStore(path(), { backups: 2 });
+      await backedUp.saveAccount('A', 'creds');
+      await backedUp.saveAccount('B', 'creds');
+      await backedUp.saveAccount('C', 'creds');
+      await backedUp.saveAccount('D', 'creds');
+      const backups = await backedUp.listBackups();
+      expect(backups.map(b => b.index)).toEqual([1, 2]);
+      expect(backups.map(b => b.accountCount)).toEqual([3, 2]);
+      expect(backups.every(b => b.valid)).toBe(true);
+    });
+
+    it('writes no backups when disabled', async () => {
+      const noBackups = new AccountStore(path(), { backups: 0 });
+      await noBackups.saveAccount('A', 'creds');
+      await noBackups.saveAccount('B', 'creds');
+      expect(await noBackups.listBackups()).toEqual([]);
+    });
+
+    it('reports a truncated file as StorageCorruptedError', async () => {
+      await store.saveAccount('Work', 'creds');
+      const raw = await readFile(path(), 'utf8');
+      await writeFile(path(), raw.slice(0, raw.length - 40), 'utf8');
+      await expect(store.load()).rejects.toBeInstanceOf(StorageCorruptedError);
+    });
+
+    it('reports a wrong key as StorageKeyError', async () => {
+      const encryption = { mode: 'passphrase', passphrase: 'right', kdf: { algorithm: 'pbkdf2', iterations: 1000 } } as const;
+      await new AccountStore(path(), { encryption }).saveAccount('Work', 'creds');
+      const wrong = new AccountStore(path(), { encryption: { ...encryption, passphrase: 'wrong' } });
+      await expect(wrong.load()).rejects.toBeInstanceOf(StorageKeyError);
+      await expect(store.load()).rejects.toBeInstanceOf(StorageKeyError);
+    });
+
+    it('restores the newest readable backup after corruption', async () => {
+      await store.saveAccount('A', 'creds');
+      await store.saveAccount('B', 'creds');
+      await store.saveAccount('C', 'creds');
+      await writeFile(path(), 'garbage', 'utf8');
+      await writeFile(`${path()}.bak.1`, 'garbage', 'utf8');
+
+      const result = await store.recover();
+      expect(result).toMatchObject({ restored: true, source: `${path()}.bak.2`, accountCount: 1 });
+      expect(await readFile(result.quarantinedPath!, 'utf8')).toBe('garbage');
+      expect((await store.load()).accounts.map(a => a.name)).toEqual(['A']);
+    });
+
+    it('leaves a readable file alone unless forced', async () => {
+      await store.saveAccount('A', 'creds');
+      await store.saveAccount('B', 'creds');
+      expect(await store.recover()).toEqual({ restored: false, source: null, accountCount: 2 });
+      const forced = await store.recover({ force: true });
+      expect(forced.restored).toBe(true);
+      expect((await store.load()).accounts).toHaveLength(1);
+    });
+
+    it('rethrows the load error when no backup is readable', async () => {
+      await writeFile(path(), 'garbage', 'utf8');
+      await expect(store.recover()).rejects.toBeInstanceOf(StorageCorruptedError);
+    });
+
+    it('re-encrypts backups on rekey', async () => {
+      const encryption = { mode: 'passphrase', passphrase: 'pw', kdf: { algorithm: 'pbkdf2', iterations: 1000 } } as const;
+      await store.saveAccount('A', 'creds');
+      await store.saveAccount('B', 'creds');
+      await store.rekey(encryption);
+      const backups = await new AccountStore(path(), { encryption }).listBackups();
+      expect(backups).toHaveLength(1);
+      expect(backups[0].valid).toBe(true);
+      expect((await new AccountStore(path()).listBackups())[0].valid).toBe(false);
+      // Rewritten through a temp file, which is gone afterwards
+      expect((await readdir(tmpDir)).sort()).toEqual(['accounts.enc', 'accounts.enc.bak.1']);
+    });
+  });
 });
+
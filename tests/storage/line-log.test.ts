@@ -0,0 +1,66 @@
+// tests/storage/line-log.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, appendFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { EncryptedLineLog, PlainLineLog, type LineLog } from '../../src/storage/line-log.js';
+import { StorageError } from '../../src/errors.js';
+import type { EncryptionOptions } from '../../src/types.js';
+
+const key = randomBytes(32);
+const encryption: EncryptionOptions = { mode: 'key-provider', getKey: () => key };
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'claude-usage-line-log-test-'));
+});
+
+afterEach(async () => {
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+const variants: [string, (path: string) => LineLog][] = [
+  ['EncryptedLineLog', path => new EncryptedLineLog(path, 'test-format', encryption)],
+  ['PlainLineLog', path => new PlainLineLog(path)],
+];
+
+describe.each(variants)('%s', (_name, create) => {
+  it('reads nothing from a missing file', async () => {
+    expect(await create(join(tmpDir, 'log')).read()).toEqual([]);
+  });
+
+  it('appends and reads lines in order', async () => {
+    const path = join(tmpDir, 'log');
+    await create(path).append(['a', 'b']);
+    await create(path).append(['c']);
+    expect(await create(path).read()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rewrites lines, dropping those mapped to null', async () => {
+    const path = join(tmpDir, 'log');
+    const log = create(path);
+    await log.append(['keep', 'drop', 'change']);
+    const dropped = await log.rewrite(line => line === 'drop' ? null : line === 'change' ? 'changed' : line);
+    expect(dropped).toBe(1);
+    expect(await create(path).read()).toEqual(['keep', 'changed']);
+  });
+});
+
+describe('EncryptedLineLog', () => {
+  it('refuses a file of another format', async () => {
+    const path = join(tmpDir, 'log');
+    await new EncryptedLineLog(path, 'format-a', encryption).append(['x']);
+    await expect(new EncryptedLineLog(path, 'format-b', encryption).read()).rejects.toBeInstanceOf(StorageError);
+  });
+
+  it('drops damaged lines on rewrite', async () => {
+    const path = join(tmpDir, 'log');
+    const log = new EncryptedLineLog(path, 'test-format', encryption);
+    await log.append(['a']);
+    await appendFile(path, 'garbage\n');
+    expect(await log.rewrite(line => line)).toBe(1);
+    expect((await readFile(path, 'utf8')).split('\n').filter(Boolean)).toHaveLength(2); // header + 'a'
+  });
+});
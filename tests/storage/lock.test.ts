@@ -0,0 +1,75 @@
+// tests/storage/lock.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, utimes, access } from 'node:fs/promises';
+import { tmpdir, hostname } from 'node:os';
+import { join } from 'node:path';
+import { withFileLock } from '../../src/storage/lock.js';
+import { StorageError } from '../../src/errors.js';
+
+let tmpDir: string;
+let lockPath: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'claude-usage-lock-test-'));
+  lockPath = join(tmpDir, 'accounts.enc.lock');
+});
+
+afterEach(async () => {
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('withFileLock', () => {
+  it('returns the callback result and releases the lock', async () => {
+    const result = await withFileLock(lockPath, async () => 42);
+    expect(result).toBe(42);
+    await expect(access(lockPath)).rejects.toThrow();
+  });
+
+  it('releases the lock when the callback throws', async () => {
+    await expect(withFileLock(lockPath, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(access(lockPath)).rejects.toThrow();
+  });
+
+  it('serializes concurrent holders', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const run = () => withFileLock(lockPath, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      active--;
+    }, { retryIntervalMs: 5 });
+    await Promise.all([run(), run(), run(), run()]);
+    expect(maxActive).toBe(1);
+  });
+
+  it('times out while another live process holds the lock', async () => {
+    await writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: hostname(), acquiredAt: new Date().toISOString() }));
+    await expect(withFileLock(lockPath, async () => 1, { timeoutMs: 100, retryIntervalMs: 10 }))
+      .rejects.toBeInstanceOf(StorageError);
+  });
+
+  it('breaks a lock older than staleMs', async () => {
+    await writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: hostname(), acquiredAt: '2020-01-01T00:00:00Z' }));
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lockPath, old, old);
+    await expect(withFileLock(lockPath, async () => 'ok', { timeoutMs: 500, staleMs: 30_000 })).resolves.toBe('ok');
+  });
+
+  it('keeps a lock held longer than staleMs', async () => {
+    const order: string[] = [];
+    const holder = withFileLock(lockPath, async () => {
+      await new Promise(resolve => setTimeout(resolve, 600));
+      order.push('holder');
+    }, { staleMs: 200 });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await withFileLock(lockPath, async () => { order.push('contender'); }, { staleMs: 200, timeoutMs: 2000, retryIntervalMs: 10 });
+    await holder;
+    expect(order).toEqual(['holder', 'contender']);
+  });
+
+  it('breaks a lock whose owning process has exited', async () => {
+    await writeFile(lockPath, JSON.stringify({ pid: 2 ** 22 + 1, hostname: hostname(), acquiredAt: new Date().toISOString() }));
+    await expect(withFileLock(lockPath, async () => 'ok', { timeoutMs: 500 })).resolves.toBe('ok');
+  });
+});
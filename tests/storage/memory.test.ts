@@ -0,0 +1,22 @@
+// tests/storage/memory.test.ts
+import { describe, it, expect } from 'vitest';
+import { MemoryAccountStorage } from '../../src/storage/index.js';
+import { describeAccountStorageConformance } from '../../src/testing/conformance.js';
+
+describeAccountStorageConformance('MemoryAccountStorage', {
+  create: async () => new MemoryAccountStorage(),
+});
+
+describe('MemoryAccountStorage', () => {
+  it('can be seeded with initial data without aliasing it', async () => {
+    const initial = {
+      accounts: [{ name: 'Seed', accountType: 'oauth' as const, credentials: 'creds', savedAt: '2025-01-01T00:00:00.000Z' }],
+      activeAccountName: 'Seed',
+    };
+    const storage = new MemoryAccountStorage(initial);
+    initial.accounts[0].credentials = 'mutated';
+    const data = await storage.load();
+    expect(data.accounts[0].credentials).toBe('creds');
+    expect(data.activeAccountName).toBe('Seed');
+  });
+});
@@ -0,0 +1,57 @@
+// tests/storage/migrations.test.ts
+import { describe, it, expect } from 'vitest';
+import { migrateAccountsData, CURRENT_SCHEMA_VERSION } from '../../src/storage/migrations.js';
+import { StorageError } from '../../src/errors.js';
+
+const V0 = {
+  accounts: [
+    { name: 'Legacy', credentials: 'creds', savedAt: '2025-01-01T00:00:00.000Z' },
+    { name: 'Org', accountType: 'admin', credentials: '{"adminApiKey":"k"}', savedAt: '2025-01-01T00:00:00.000Z' },
+  ],
+  activeAccountName: 'Legacy',
+};
+
+describe('migrateAccountsData', () => {
+  it('upgrades an unversioned payload to the current schema', () => {
+    const data = migrateAccountsData(structuredClone(V0));
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(data.accounts[0].accountType).toBe('oauth');
+    expect(data.accounts[1].accountType).toBe('admin');
+    expect(data.activeAccountName).toBe('Legacy');
+  });
+
+  it('adds default metadata to older accounts', () => {
+    const data = migrateAccountsData({ schemaVersion: 1, accounts: [{ ...V0.accounts[1] }, { ...V0.accounts[0], tags: ['x'], enabled: false }] });
+    expect(data.accounts[0]).toMatchObject({ tags: [], enabled: true });
+    expect(data.accounts[1]).toMatchObject({ tags: ['x'], enabled: false });
+  });
+
+  it('is idempotent', () => {
+    const once = migrateAccountsData(structuredClone(V0));
+    const twice = migrateAccountsData(structuredClone(once));
+    expect(twice).toEqual(once);
+  });
+
+  it('re-runs safely on data with a stale version but already-migrated fields', () => {
+    const partial = { ...migrateAccountsData(structuredClone(V0)), schemaVersion: 0 };
+    expect(migrateAccountsData(partial)).toEqual(migrateAccountsData(structuredClone(V0)));
+  });
+
+  it('fills in a missing activeAccountName', () => {
+    const data = migrateAccountsData({ accounts: [] });
+    expect(data.activeAccountName).toBeNull();
+  });
+
+  it('refuses payloads from a newer schema', () => {
+    expect(() => migrateAccountsData({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, accounts: [] }))
+      .toThrow(StorageError);
+  });
+
+  it('rejects malformed payloads', () => {
+    expect(() => migrateAccountsData(null)).toThrow('malformed');
+    expect(() => migrateAccountsData({ accounts: 'nope' })).toThrow('malformed');
+    expect(() => migrateAccountsData({ accounts: [null] })).toThrow(StorageError);
+    expect(() => migrateAccountsData({ accounts: [{ name: 'A' }, 'B'] })).toThrow('malformed');
+    expect(() => migrateAccountsData({ schemaVersion: 'x', accounts: [] })).toThrow('Invalid accounts schema version');
+  });
+});
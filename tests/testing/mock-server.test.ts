@@ -0,0 +1,81 @@
+// tests/testing/mock-server.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ClaudeUsageClient } from '../../src/client.js';
+import { MemoryAccountStorage } from '../../src/storage/index.js';
+import { MockAnthropicServer } from '../../src/testing/index.js';
+
+let server: MockAnthropicServer;
+let client: ClaudeUsageClient;
+
+beforeEach(async () => {
+  server = await MockAnthropicServer.start();
+  client = new ClaudeUsageClient({ storage: new MemoryAccountStorage(), baseUrls: server.baseUrls, retry: { baseDelayMs: 1 } });
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+function routes() {
+  return server.requests.map(r => r.route);
+}
+
+describe('MockAnthropicServer', () => {
+  it('serves usage and profile for near-limit accounts', async () => {
+    await client.saveAccount('Work', server.useScenario('near-limit').credentials);
+    const usage = await client.getAccountUsage('Work');
+    expect(usage.accountType === 'oauth' && [usage.session.percent, usage.weekly.percent, usage.opus?.percent]).toEqual([92, 85, 97]);
+    expect(usage.accountType === 'oauth' && usage.profile?.plan).toBe('max');
+    expect((await client.listAccounts())[0].email).toBe('mock-1@example.com');
+  });
+
+  it('rotates tokens for expired credentials', async () => {
+    const { account, credentials } = server.useScenario('expired-token');
+    const originalRefreshToken = account!.refreshToken;
+    await client.saveAccount('Work', credentials);
+    const usage = await client.getAccountUsage('Work');
+    expect(usage.error).toBeUndefined();
+    expect(routes()).toEqual(['profile', 'token', 'usage']);
+    expect(account!.refreshToken).not.toBe(originalRefreshToken);
+  });
+
+  it('rejects unknown tokens', async () => {
+    await client.saveAccount('Work', server.useScenario('unauthorized').credentials);
+    expect((await client.getAccountUsage('Work')).error).toBe('Authentication failed');
+    expect(routes()).toEqual(['profile', 'usage', 'token']);
+  });
+
+  it('answers 429 with Retry-After before succeeding', async () => {
+    const { credentials } = server.useScenario('rate-limited', { retryAfterSeconds: 0, times: 2 });
+    await client.saveAccount('Work', credentials);
+    expect((await client.getAccountUsage('Work')).error).toBeUndefined();
+    expect(routes().filter(r => r === 'usage')).toHaveLength(3);
+  });
+
+  it('paginates admin reports', async () => {
+    await client.saveAdminAccount('Org', server.useScenario('paginated-org').adminApiKey!);
+    server.requests.length = 0;
+    const usage = await client.getAccountUsage('Org');
+    expect(usage.accountType === 'admin' && [usage.outputTokens, usage.actualCostCents]).toEqual([3500, 420]);
+    expect(server.requests.filter(r => r.route === 'messages').map(r => new URL(r.path, server.url).searchParams.get('page')))
+      .toEqual([null, '1', '2']);
+  });
+
+  it('applies live state edits and injected failures', async () => {
+    const { account, credentials } = server.addOAuthAccount();
+    await client.saveAccount('Work', credentials);
+    account.usage.five_hour.utilization = 55;
+    const usage = await client.getAccountUsage('Work');
+    expect(usage.accountType === 'oauth' && usage.session.percent).toBe(55);
+
+    server.fail('usage', { status: 500, times: 3 });
+    expect((await client.getAccountUsage('Work')).error).toBe('API error: 500 Internal Server Error');
+    expect((await client.getAccountUsage('Work')).error).toBeUndefined();
+  });
+
+  it('answers unknown routes with 404', async () => {
+    const response = await fetch(`${server.url}/v1/messages`, { method: 'POST' });
+    expect(response.status).toBe(404);
+    expect(server.requests[0]).toMatchObject({ method: 'POST', route: null });
+  });
+});
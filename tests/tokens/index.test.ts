@@ -1,6 +1,7 @@
 // tests/tokens/index.test.ts
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { validateToken, refreshToken } from '../../src/tokens/index.js';
+import { ApiError, NetworkError, ResponseSchemaError, TokenExpiredError } from '../../src/errors.js';
 
 describe('validateToken', () => {
   it('returns valid for non-expired token', () => {
@@ -53,17 +54,30 @@ describe('refreshToken', () => {
     }));
 
     const oldCreds = JSON.stringify({
-      claudeAiOauth: { accessToken: 'old', refreshToken: 'rt', expiresAt: future }
+      claudeAiOauth: { accessToken: 'old', refreshToken: 'rt', expiresAt: future, scopes: ['user:inference'], subscriptionType: 'max' }
     });
 
     const result = await refreshToken(oldCreds);
     expect(result.success).toBe(true);
     if (result.success) {
       const parsed = JSON.parse(result.newCredentials);
-      expect(parsed.claudeAiOauth.accessToken).toBe('new-tok');
+      expect(parsed.claudeAiOauth).toMatchObject({ accessToken: 'new-tok', refreshToken: 'new-rt', scopes: ['user:inference'], subscriptionType: 'max' });
     }
   });
 
+  it('rejects a token response without a refresh token', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ access_token: 'new-tok', expires_in: 3600 }),
+    }));
+    const creds = JSON.stringify({ claudeAiOauth: { accessToken: 'old', refreshToken: 'rt', expiresAt: '' } });
+    const result = await refreshToken(creds, { validation: 'lenient' });
+    expect(result.success).toBe(false);
+    expect(result.newCredentials).toBeUndefined();
+    expect(result.cause).toBeInstanceOf(ResponseSchemaError);
+    expect(result.error).toContain('$.refresh_token');
+  });
+
   it('returns failure on 401', async () => {
     vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
       ok: false,
@@ -73,6 +87,16 @@ describe('refreshToken', () => {
     const creds = JSON.stringify({ claudeAiOauth: { accessToken: 'old', refreshToken: 'rt', expiresAt: '' } });
     const result = await refreshToken(creds);
     expect(result.success).toBe(false);
+    expect(result.cause).toBeInstanceOf(TokenExpiredError);
+  });
+
+  it('keeps a server error as a retryable ApiError', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500 }));
+    const creds = JSON.stringify({ claudeAiOauth: { accessToken: 'old', refreshToken: 'rt', expiresAt: '' } });
+    const result = await refreshToken(creds);
+    expect(result.error).toBe('HTTP 500');
+    expect(result.cause).toBeInstanceOf(ApiError);
+    expect(result.cause).toMatchObject({ statusCode: 500, retryable: true });
   });
 
   it('returns failure when no refresh token in creds', async () => {
@@ -88,5 +112,6 @@ describe('refreshToken', () => {
     const result = await refreshToken(creds);
     expect(result.success).toBe(false);
     expect(result.error).toBe('Network error');
+    expect(result.cause).toBeInstanceOf(NetworkError);
   });
 });
@@ -0,0 +1,88 @@
+// tests/usage/cache.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { UsageCache, type CachedUsage } from '../../src/usage/cache.js';
+import type { EncryptionOptions, OAuthAccountUsage } from '../../src/types.js';
+import { oauthUsage } from '../fixtures/usage.js';
+
+const keyA = randomBytes(32);
+const keyB = randomBytes(32);
+const encA: EncryptionOptions = { mode: 'key-provider', getKey: () => keyA };
+const encB: EncryptionOptions = { mode: 'key-provider', getKey: () => keyB };
+
+function snapshot(accountName: string, fetchedAt: Date, percent = 0.5): CachedUsage {
+  const usage = oauthUsage(accountName, {
+    session: { percent, resetsAt: new Date('2026-03-01T05:00:00Z') },
+    weekly: { percent: 0.1, resetsAt: null },
+  });
+  return { fetchedAt, usage };
+}
+
+let tmpDir: string;
+let cachePath: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(join(tmpdir(), 'claude-usage-cache-test-'));
+  cachePath = join(tmpDir, 'usage-cache.enc');
+});
+
+afterEach(async () => {
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('UsageCache', () => {
+  it('persists snapshots across instances and revives dates', async () => {
+    const fetchedAt = new Date('2026-03-01T00:00:00Z');
+    const stored = snapshot('Work', fetchedAt);
+    stored.usage = { ...stored.usage, fetchedAt } as OAuthAccountUsage;
+    await new UsageCache(cachePath, encA).set(new Map([['Work', stored]]));
+
+    const entry = (await new UsageCache(cachePath, encA).get(['Work'])).get('Work')!;
+    expect(entry.fetchedAt).toEqual(fetchedAt);
+    expect(entry.usage.fetchedAt).toEqual(fetchedAt);
+    expect(entry.usage.accountType === 'oauth' && entry.usage.session.resetsAt).toEqual(new Date('2026-03-01T05:00:00Z'));
+    expect(await readFile(cachePath, 'utf8')).not.toContain('Work');
+  });
+
+  it('keeps the newer snapshot when writers race', async () => {
+    const older = snapshot('Work', new Date('2026-03-01T00:00:00Z'), 0.1);
+    const newer = snapshot('Work', new Date('2026-03-01T00:01:00Z'), 0.9);
+    await new UsageCache(cachePath, encA).set(new Map([['Work', newer]]));
+    await new UsageCache(cachePath, encA).set(new Map([['Work', older]]));
+
+    const entry = (await new UsageCache(cachePath, encA).get(['Work'])).get('Work')!;
+    expect(entry.fetchedAt).toEqual(newer.fetchedAt);
+  });
+
+  it('renames and removes snapshots', async () => {
+    const cache = new UsageCache(cachePath, encA);
+    await cache.set(new Map([['A', snapshot('A', new Date())], ['B', snapshot('B', new Date())]]));
+    await cache.rename('A', 'C');
+    await cache.remove('B');
+
+    const entries = await new UsageCache(cachePath, encA).get(['A', 'B', 'C']);
+    expect([...entries.keys()]).toEqual(['C']);
+    expect(entries.get('C')!.usage.accountName).toBe('C');
+  });
+
+  it('treats a file under another key as empty', async () => {
+    await new UsageCache(cachePath, encA).set(new Map([['Work', snapshot('Work', new Date())]]));
+    expect((await new UsageCache(cachePath, encB).get(['Work'])).size).toBe(0);
+  });
+
+  it('re-encrypts on rekey', async () => {
+    const cache = new UsageCache(cachePath, encA);
+    await cache.set(new Map([['Work', snapshot('Work', new Date())]]));
+    await cache.rekey(encB);
+    expect((await new UsageCache(cachePath, encB).get(['Work'])).size).toBe(1);
+  });
+
+  it('works in memory without a path', async () => {
+    const cache = new UsageCache(null);
+    await cache.set(new Map([['Work', snapshot('Work', new Date())]]));
+    expect((await cache.get(['Work'])).size).toBe(1);
+  });
+});
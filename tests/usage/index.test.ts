@@ -1,6 +1,7 @@
 // tests/usage/index.test.ts
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { fetchUsage, fetchProfile, transformUsageData, AuthenticationError } from '../../src/usage/index.js';
+import { fetchUsage, fetchProfile, transformUsageData, transformProfile, AuthenticationError } from '../../src/usage/index.js';
+import { ResponseSchemaError } from '../../src/errors.js';
 
 describe('fetchUsage', () => {
   beforeEach(() => vi.restoreAllMocks());
@@ -28,6 +29,33 @@ describe('fetchUsage', () => {
     vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error' }));
     await expect(fetchUsage('tok')).rejects.toThrow('API error: 500');
   });
+
+  it('throws ResponseSchemaError when a required window is malformed', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ five_hour: { resets_at: null }, seven_day: { utilization: 0.3, resets_at: null } }),
+    }));
+    await expect(fetchUsage('tok')).rejects.toMatchObject({
+      name: 'ResponseSchemaError',
+      endpoint: '/api/oauth/usage',
+      path: '$.five_hour.utilization',
+    });
+  });
+
+  it('drops malformed optional windows in lenient mode', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        five_hour: { utilization: 0.45, resets_at: null },
+        seven_day: { utilization: 0.30, resets_at: null },
+        seven_day_opus: { utilization: 'high' },
+      }),
+    }));
+    await expect(fetchUsage('tok')).rejects.toBeInstanceOf(ResponseSchemaError);
+    const result = await fetchUsage('tok', undefined, { validation: 'lenient' });
+    expect(result.seven_day_opus).toBeUndefined();
+    expect(transformUsageData(result).opus).toBeNull();
+  });
 });
 
 describe('fetchProfile', () => {
@@ -46,6 +74,16 @@ describe('fetchProfile', () => {
     expect(result.account.email).toBe('test@example.com');
   });
 
+  it('accepts null or missing fields it does not use in strict mode', async () => {
+    const profileData = {
+      account: { uuid: 'u1', full_name: null, display_name: 'T', email: 'test@example.com', has_claude_max: false, has_claude_pro: true },
+      organization: { uuid: 'o1', name: 'Org', organization_type: 'personal', billing_type: 'stripe', rate_limit_tier: 'tier1', has_extra_usage_enabled: false, subscription_status: 'active', subscription_created_at: null },
+    };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: async () => profileData }));
+    const result = await fetchProfile('tok', undefined, { validation: 'strict' });
+    expect(transformProfile(result).displayName).toBe('T');
+  });
+
   it('throws AuthenticationError on 401', async () => {
     vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 401, statusText: 'Unauthorized' }));
     await expect(fetchProfile('tok')).rejects.toBeInstanceOf(AuthenticationError);
@@ -57,6 +95,29 @@ describe('fetchProfile', () => {
   });
 });
 
+describe('transformProfile', () => {
+  const profileData = {
+    account: { uuid: 'u1', full_name: 'Test', display_name: 'T', email: 'test@example.com', has_claude_max: false, has_claude_pro: true, created_at: '2025-01-01' },
+    organization: { uuid: 'o1', name: 'Org', organization_type: 'personal', billing_type: 'stripe', rate_limit_tier: 'tier1', has_extra_usage_enabled: true, subscription_status: 'active', subscription_created_at: '2025-01-01' },
+  };
+
+  it('maps plan and organization fields', () => {
+    const fetchedAt = new Date('2026-03-01T00:00:00Z');
+    expect(transformProfile(profileData, fetchedAt)).toEqual({
+      plan: 'pro',
+      accountUuid: 'u1',
+      displayName: 'T',
+      organization: { uuid: 'o1', name: 'Org', type: 'personal', billingType: 'stripe', rateLimitTier: 'tier1', subscriptionStatus: 'active', hasExtraUsageEnabled: true },
+      fetchedAt,
+    });
+  });
+
+  it('prefers max over pro and falls back to free', () => {
+    expect(transformProfile({ ...profileData, account: { ...profileData.account, has_claude_max: true } }).plan).toBe('max');
+    expect(transformProfile({ ...profileData, account: { ...profileData.account, has_claude_pro: false } }).plan).toBe('free');
+  });
+});
+
 describe('transformUsageData', () => {
   it('transforms raw API response with all windows', () => {
     const raw = {
@@ -95,6 +156,25 @@ describe('transformUsageData', () => {
     expect(result.extraUsage.isEnabled).toBe(false);
   });
 
+  it('maps every window into windows, including unrecognized ones', () => {
+    const raw = {
+      five_hour: { utilization: 10, resets_at: '2025-01-01T05:00:00Z' },
+      seven_day: { utilization: 20, resets_at: null },
+      seven_day_opus: { utilization: 30, resets_at: null },
+      seven_day_haiku: { utilization: 40, resets_at: null },
+      monthly_research: { utilization: 50, resets_at: null },
+      seven_day_sonnet: null,
+      extra_usage: { is_enabled: true, monthly_limit: 10000, used_credits: 2500, utilization: 0.25 },
+    };
+    const result = transformUsageData(raw);
+    expect(Object.keys(result.windows)).toEqual(['five_hour', 'seven_day', 'seven_day_opus', 'seven_day_haiku', 'monthly_research']);
+    expect(result.windows.five_hour).toEqual({ percent: 10, resetsAt: new Date('2025-01-01T05:00:00Z'), kind: 'session', durationMs: 5 * 3600_000 });
+    expect(result.windows.seven_day_opus).toMatchObject({ percent: 30, kind: 'model', durationMs: 7 * 24 * 3600_000 });
+    expect(result.windows.seven_day_haiku).toMatchObject({ percent: 40, kind: 'unknown', durationMs: 7 * 24 * 3600_000 });
+    expect(result.windows.monthly_research).toEqual({ percent: 50, resetsAt: null, kind: 'unknown' });
+    expect(result.opus?.percent).toBe(30);
+  });
+
   it('handles windows with null resets_at', () => {
     const raw = {
       five_hour: { utilization: 0.1, resets_at: null },
@@ -0,0 +1,66 @@
+// tests/validation/index.test.ts
+import { describe, it, expect } from 'vitest';
+import { array, nullable, number, object, optional, string, validateResponse } from '../../src/validation/index.js';
+import { ResponseSchemaError } from '../../src/errors.js';
+
+interface Item { id: string; count: number }
+interface Payload { email: string; items: Item[]; extra?: { value: number } | null }
+
+const item = object<Item>({ id: string, count: number });
+const payload = object<Payload>({
+  email: string,
+  items: array(item),
+  extra: optional(nullable(object<{ value: number }>({ value: number }))),
+});
+
+function schemaError(fn: () => unknown): ResponseSchemaError {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof ResponseSchemaError) return err;
+    throw err;
+  }
+  throw new Error('expected a ResponseSchemaError');
+}
+
+describe('validateResponse', () => {
+  it('returns valid payloads unchanged, keeping unknown keys', () => {
+    const body = { email: 'a@example.com', items: [{ id: 'x', count: 1 }], extra: null, future: true };
+    expect(validateResponse('/test', payload, body)).toEqual(body);
+  });
+
+  it('reports the endpoint, JSON path and a redacted excerpt', () => {
+    const err = schemaError(() => validateResponse('/test', payload, {
+      email: 'a@example.com',
+      items: [{ id: 'x', count: 1 }, { id: 'secret-id', count: '2' }],
+    }));
+    expect(err.endpoint).toBe('/test');
+    expect(err.path).toBe('$.items[1].count');
+    expect(err.message).toBe('Unexpected response from /test at $.items[1].count: expected number, got string');
+    expect(err.excerpt).toBe('{"id":"[redacted]","count":"2"}');
+  });
+
+  it('redacts identifying strings in the excerpt', () => {
+    const err = schemaError(() => validateResponse('/test', payload, { email: 'a@example.com', items: null }));
+    expect(err.excerpt).not.toContain('a@example.com');
+    expect(err.excerpt.startsWith('{"email":"[redacted]"')).toBe(true);
+  });
+
+  it('truncates long excerpts', () => {
+    const items = Array.from({ length: 100 }, () => ({ id: 'x', count: 1 }));
+    const err = schemaError(() => validateResponse('/test', payload, { items }));
+    expect(err.path).toBe('$.email');
+    expect(err.excerpt).toHaveLength(301);
+    expect(err.excerpt.endsWith('…')).toBe(true);
+  });
+
+  it('drops only malformed parts in lenient mode', () => {
+    const body = { email: 'a@example.com', items: [{ id: 'x', count: 1 }, { id: 'y' }], extra: { value: 'bad' } };
+    expect(validateResponse('/test', payload, body, 'lenient')).toEqual({ email: 'a@example.com', items: [{ id: 'x', count: 1 }] });
+    expect(() => validateResponse('/test', payload, { items: [] }, 'lenient')).toThrow(ResponseSchemaError);
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(() => validateResponse('/test', number, NaN)).toThrow('expected number, got number');
+  });
+});
@@ -0,0 +1,118 @@
+// tests/watch/index.test.ts
+import { describe, it, expect } from 'vitest';
+import { UsageWatcher, abortableSleep } from '../../src/watch/index.js';
+import type { AccountProfile, AdminAccountUsage, OAuthAccountUsage } from '../../src/types.js';
+import { adminUsage, oauthUsage } from '../fixtures/usage.js';
+
+const now = new Date('2026-03-01T12:00:00Z');
+const HOUR = 3600_000;
+
+function oauth(accountName: string, session: number, sessionResetsAt: Date | null = null, opus: number | null = null): OAuthAccountUsage {
+  return oauthUsage(accountName, {
+    session: { percent: session, resetsAt: sessionResetsAt },
+    weekly: { percent: 1, resetsAt: null },
+    opus: opus === null ? null : { percent: opus, resetsAt: null },
+  });
+}
+
+function admin(accountName: string, estimatedCostCents: number): AdminAccountUsage {
+  return adminUsage(accountName, { periodStart: now, periodEnd: now, estimatedCostCents });
+}
+
+describe('UsageWatcher', () => {
+  it('emits a snapshot first, then only changes', () => {
+    const watcher = new UsageWatcher();
+    expect(watcher.update([oauth('Work', 10)], now).map(e => e.type)).toEqual(['snapshot']);
+    expect(watcher.update([oauth('Work', 10)], now)).toEqual([]);
+
+    const events = watcher.update([oauth('Work', 12, null, 3)], now);
+    expect(events).toMatchObject([
+      { type: 'window-change', window: 'session', previous: { percent: 10 }, current: { percent: 12 } },
+      { type: 'window-change', window: 'opus', previous: null, current: { percent: 3 } },
+    ]);
+  });
+
+  it('detects resets from resetsAt moving forward, ignoring jitter', () => {
+    const watcher = new UsageWatcher();
+    const reset = new Date(now.getTime() + HOUR);
+    watcher.update([oauth('Work', 80, reset)], now);
+    expect(watcher.update([oauth('Work', 80, new Date(reset.getTime() + 1000))], now)).toEqual([]);
+
+    const events = watcher.update([oauth('Work', 2, new Date(reset.getTime() + 5 * HOUR))], now);
+    expect(events).toMatchObject([{ type: 'window-reset', window: 'session', previous: { percent: 80 }, current: { percent: 2 } }]);
+  });
+
+  it('reports admin cost changes', () => {
+    const watcher = new UsageWatcher();
+    watcher.update([admin('Org', 100)], now);
+    expect(watcher.update([admin('Org', 150)], now)).toMatchObject([{ type: 'cost-change', previous: 100, current: 150 }]);
+  });
+
+  it('reports plan and subscription changes', () => {
+    const profile: AccountProfile = {
+      plan: 'max',
+      accountUuid: 'u1',
+      displayName: 'T',
+      organization: { uuid: 'o1', name: 'Org', type: 'personal', billingType: 'stripe', rateLimitTier: 'tier1', subscriptionStatus: 'active', hasExtraUsageEnabled: false },
+      fetchedAt: now,
+    };
+    const downgraded = { ...profile, plan: 'pro' as const, fetchedAt: new Date(now.getTime() + HOUR) };
+    const watcher = new UsageWatcher();
+    watcher.update([{ ...oauth('Work', 10), profile }], now);
+    expect(watcher.update([{ ...oauth('Work', 10), profile: { ...profile, fetchedAt: downgraded.fetchedAt } }], now)).toEqual([]);
+    expect(watcher.update([{ ...oauth('Work', 10), profile: downgraded }], now)).toMatchObject([
+      { type: 'profile-change', accountName: 'Work', previous: { plan: 'max' }, current: { plan: 'pro' } },
+    ]);
+  });
+
+  it('reports each distinct error once', () => {
+    const watcher = new UsageWatcher();
+    const failing = { ...oauth('Work', 0), error: 'offline' };
+    expect(watcher.update([failing], now)).toMatchObject([{ type: 'error', accountName: 'Work', error: 'offline' }]);
+    expect(watcher.update([failing], now)).toEqual([]);
+    expect(watcher.update([oauth('Work', 5)], now).map(e => e.type)).toEqual(['snapshot']);
+    expect(watcher.update([failing], now)).toHaveLength(1);
+  });
+
+  it('polls faster as a window nears 100%', () => {
+    const watcher = new UsageWatcher({ intervalMs: 60_000, minIntervalMs: 1_000 });
+    watcher.update([oauth('Work', 10)], now);
+    expect(watcher.nextDelay(now)).toBe(60_000);
+    watcher.update([oauth('Work', 80)], now);
+    expect(watcher.nextDelay(now)).toBe(30_000);
+    watcher.update([oauth('Work', 95)], now);
+    expect(watcher.nextDelay(now)).toBe(15_000);
+  });
+
+  it('wakes shortly after an upcoming reset, bounded by the minimum interval', () => {
+    const watcher = new UsageWatcher({ intervalMs: 60_000, minIntervalMs: 5_000 });
+    watcher.update([oauth('Work', 10, new Date(now.getTime() + 20_000))], now);
+    expect(watcher.nextDelay(now)).toBe(22_000);
+    watcher.update([oauth('Work', 10, new Date(now.getTime() + 1_000))], now);
+    expect(watcher.nextDelay(now)).toBe(5_000);
+  });
+
+  it('backs off exponentially while every account fails', () => {
+    const watcher = new UsageWatcher({ intervalMs: 10_000, maxIntervalMs: 50_000 });
+    const failing = { ...oauth('Work', 0), error: 'offline' };
+    watcher.update([failing], now);
+    expect(watcher.nextDelay(now)).toBe(20_000);
+    watcher.update([failing], now);
+    expect(watcher.nextDelay(now)).toBe(40_000);
+    watcher.update([failing], now);
+    expect(watcher.nextDelay(now)).toBe(50_000);
+    watcher.update([oauth('Work', 1)], now);
+    expect(watcher.nextDelay(now)).toBe(10_000);
+  });
+});
+
+describe('abortableSleep', () => {
+  it('resolves early on abort', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const sleeping = abortableSleep(60_000, controller.signal);
+    controller.abort();
+    await sleeping;
+    expect(Date.now() - started).toBeLessThan(1_000);
+  });
+});